@@ -1,5 +1,6 @@
 package com.lilclaw.app
 
+import android.content.Intent
 import android.os.Bundle
 import androidx.activity.ComponentActivity
 import androidx.activity.compose.setContent
@@ -8,6 +9,7 @@ import androidx.compose.foundation.isSystemInDarkTheme
 import androidx.compose.runtime.Composable
 import androidx.compose.runtime.SideEffect
 import com.lilclaw.app.navigation.AppNavigation
+import com.lilclaw.app.service.ReplyNotifier
 import com.lilclaw.app.ui.theme.LilClawTheme
 import com.lilclaw.app.ui.webview.NativeBridge
 
@@ -19,6 +21,7 @@ class MainActivity : ComponentActivity() {
         // NativeBridge must be created before setContent so launchers register in time
         nativeBridge = NativeBridge(this) { null } // webView set later
         nativeBridge.registerLaunchers()
+        handleSessionIntent(intent)
 
         super.onCreate(savedInstanceState)
         enableEdgeToEdge()
@@ -30,6 +33,17 @@ class MainActivity : ComponentActivity() {
         }
     }
 
+    // singleTop: a notification tap while running lands here instead of a new activity
+    override fun onNewIntent(intent: Intent) {
+        super.onNewIntent(intent)
+        handleSessionIntent(intent)
+    }
+
+    private fun handleSessionIntent(intent: Intent?) {
+        val sessionKey = intent?.getStringExtra(ReplyNotifier.EXTRA_SESSION_KEY) ?: return
+        nativeBridge.openSession(sessionKey)
+    }
+
     @Composable
     private fun SystemBarColors() {
         val isDark = isSystemInDarkTheme()
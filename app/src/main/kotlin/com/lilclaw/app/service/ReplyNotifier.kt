@@ -0,0 +1,75 @@
+package com.lilclaw.app.service
+
+import android.Manifest
+import android.app.NotificationChannel
+import android.app.NotificationManager
+import android.app.PendingIntent
+import android.content.Context
+import android.content.Intent
+import android.content.pm.PackageManager
+import android.os.Build
+import androidx.core.app.NotificationCompat
+import androidx.core.content.ContextCompat
+import com.lilclaw.app.MainActivity
+
+/**
+ * "New reply" notifications posted on behalf of the SPA.
+ * One notification per session; tapping it opens MainActivity with the session key.
+ */
+object ReplyNotifier {
+    const val CHANNEL_ID = "lilclaw_replies"
+    const val EXTRA_SESSION_KEY = "com.lilclaw.app.SESSION_KEY"
+
+    fun canPost(context: Context): Boolean =
+        Build.VERSION.SDK_INT < Build.VERSION_CODES.TIRAMISU ||
+            ContextCompat.checkSelfPermission(context, Manifest.permission.POST_NOTIFICATIONS) ==
+            PackageManager.PERMISSION_GRANTED
+
+    fun show(context: Context, sessionKey: String, title: String, body: String) {
+        if (!canPost(context)) return
+        createChannel(context)
+
+        val openIntent = PendingIntent.getActivity(
+            context,
+            // Distinct request codes so each session's extra survives
+            sessionKey.hashCode(),
+            Intent(context, MainActivity::class.java).apply {
+                putExtra(EXTRA_SESSION_KEY, sessionKey)
+                addFlags(Intent.FLAG_ACTIVITY_SINGLE_TOP or Intent.FLAG_ACTIVITY_CLEAR_TOP)
+            },
+            PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE,
+        )
+
+        val notification = NotificationCompat.Builder(context, CHANNEL_ID)
+            .setContentTitle(title)
+            .setContentText(body)
+            .setStyle(NotificationCompat.BigTextStyle().bigText(body))
+            .setSmallIcon(android.R.drawable.sym_action_chat)
+            .setContentIntent(openIntent)
+            .setAutoCancel(true)
+            .setCategory(NotificationCompat.CATEGORY_MESSAGE)
+            .build()
+        context.getSystemService(NotificationManager::class.java)
+            .notify(notificationId(sessionKey), notification)
+    }
+
+    fun clear(context: Context, sessionKey: String) {
+        context.getSystemService(NotificationManager::class.java)
+            .cancel(notificationId(sessionKey))
+    }
+
+    // Offset so a session can never collide with the gateway service's notification
+    private fun notificationId(sessionKey: String): Int = 1000 + (sessionKey.hashCode() and 0xffffff)
+
+    private fun createChannel(context: Context) {
+        val channel = NotificationChannel(
+            CHANNEL_ID,
+            "新回复",
+            NotificationManager.IMPORTANCE_DEFAULT,
+        ).apply {
+            description = "对话在后台收到回复时提醒"
+        }
+        context.getSystemService(NotificationManager::class.java)
+            .createNotificationChannel(channel)
+    }
+}
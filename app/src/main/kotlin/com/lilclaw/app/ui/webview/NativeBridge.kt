@@ -6,11 +6,15 @@ import android.graphics.BitmapFactory
 import android.net.Uri
 import android.os.Bundle
 import android.os.VibrationEffect
+import android.provider.OpenableColumns
 import android.os.Vibrator
 import android.speech.RecognitionListener
 import android.speech.RecognizerIntent
 import android.speech.SpeechRecognizer
+import android.content.ClipboardManager
+import android.content.Context
 import android.content.Intent
+import android.os.Build
 import android.util.Base64
 import android.util.Log
 import android.webkit.JavascriptInterface
@@ -20,12 +24,19 @@ import androidx.activity.result.ActivityResultLauncher
 import androidx.activity.result.contract.ActivityResultContracts
 import androidx.core.content.ContextCompat
 import androidx.core.content.FileProvider
+import androidx.lifecycle.Lifecycle
+import com.lilclaw.app.service.ReplyNotifier
+import org.json.JSONObject
 import java.io.ByteArrayOutputStream
 import java.io.File
 
+// Files travel to the SPA as one base64 string through evaluateJavascript
+private const val MAX_FILE_BYTES = 10 * 1024 * 1024
+
 /**
  * Handles native bridge calls from the SPA WebView.
- * Manages: voice input, camera, gallery, haptic feedback.
+ * Manages: voice input, camera, gallery, haptic feedback, file sharing and import,
+ * and reply notifications.
  */
 class NativeBridge(
     private val activity: ComponentActivity,
@@ -45,12 +56,21 @@ class NativeBridge(
     // Pending image result: cached until JS callback is registered
     private var pendingImageResult: String? = null
 
+    // Session a notification tap asked for, until the SPA picks it up
+    private var pendingSessionKey: String? = null
+
+    // Reply that arrived before the user answered the notification permission prompt
+    private var pendingNotification: Triple<String, String, String>? = null
+    private var askedNotificationPermission = false
+
     // Activity result launchers — must be registered in onCreate
     lateinit var cameraLauncher: ActivityResultLauncher<Uri>
     lateinit var galleryLauncher: ActivityResultLauncher<String>
+    lateinit var documentLauncher: ActivityResultLauncher<String>
+    lateinit var fileLauncher: ActivityResultLauncher<String>
     lateinit var permissionLauncher: ActivityResultLauncher<Array<String>>
 
-    private var pendingAction: String? = null // "camera" or "voice"
+    private var pendingAction: String? = null // "camera", "voice" or "notify"
 
     fun registerLaunchers() {
         cameraLauncher = activity.registerForActivityResult(
@@ -74,6 +94,22 @@ class NativeBridge(
             }
         }
 
+        documentLauncher = activity.registerForActivityResult(
+            ActivityResultContracts.GetContent()
+        ) { uri: Uri? ->
+            if (uri != null) {
+                sendDocumentToWeb(uri)
+            }
+        }
+
+        fileLauncher = activity.registerForActivityResult(
+            ActivityResultContracts.GetContent()
+        ) { uri: Uri? ->
+            if (uri != null) {
+                sendFileToWeb(uri)
+            }
+        }
+
         permissionLauncher = activity.registerForActivityResult(
             ActivityResultContracts.RequestMultiplePermissions()
         ) { permissions ->
@@ -82,7 +118,14 @@ class NativeBridge(
                 when (pendingAction) {
                     "camera" -> launchCamera()
                     "voice" -> startVoiceInternal()
+                    "notify" -> pendingNotification?.let { (key, title, body) ->
+                        ReplyNotifier.show(activity, key, title, body)
+                    }
                 }
+                pendingNotification = null
+            } else if (pendingAction == "notify") {
+                // Declining notifications is a choice, not an error worth a toast
+                pendingNotification = null
             } else {
                 callJs("window.__lilclaw_onError?.('权限被拒绝')")
             }
@@ -134,10 +177,101 @@ class NativeBridge(
         }
     }
 
+    /** Pick any file to send with a message — delivered with its name, since it may not be an image */
     @JavascriptInterface
     fun pickFile() {
         activity.runOnUiThread {
-            galleryLauncher.launch("*/*")
+            fileLauncher.launch("*/*")
+        }
+    }
+
+    /** Pick a document for the SPA to read (conversation import) — delivered as base64, not as a chat image */
+    @JavascriptInterface
+    fun pickDocument(mimeType: String) {
+        activity.runOnUiThread {
+            documentLauncher.launch(mimeType)
+        }
+    }
+
+    /** Clipboard text for `${clipboard}` in action card templates — the WebView can't read it */
+    @JavascriptInterface
+    fun getClipboardText(): String {
+        val clipboard = activity.getSystemService(Context.CLIPBOARD_SERVICE) as ClipboardManager
+        val clip = clipboard.primaryClip ?: return ""
+        if (clip.itemCount == 0) return ""
+        return clip.getItemAt(0).coerceToText(activity)?.toString() ?: ""
+    }
+
+    /** Save/share an exported conversation: written to cache, offered via the share sheet */
+    @JavascriptInterface
+    fun shareFile(filename: String, mimeType: String, base64: String) {
+        try {
+            val dir = File(activity.cacheDir, "exports").apply { mkdirs() }
+            val safeName = filename.replace(Regex("[\\\\/:*?\"<>|]"), "_")
+            val file = File(dir, safeName)
+            file.writeBytes(Base64.decode(base64, Base64.DEFAULT))
+            val uri = FileProvider.getUriForFile(
+                activity,
+                "${activity.packageName}.fileprovider",
+                file
+            )
+            val intent = Intent(Intent.ACTION_SEND).apply {
+                type = mimeType
+                putExtra(Intent.EXTRA_STREAM, uri)
+                putExtra(Intent.EXTRA_TITLE, safeName)
+                addFlags(Intent.FLAG_GRANT_READ_URI_PERMISSION)
+            }
+            activity.runOnUiThread {
+                activity.startActivity(Intent.createChooser(intent, safeName))
+            }
+        } catch (e: Exception) {
+            Log.e("NativeBridge", "Failed to share file", e)
+            callJs("window.__lilclaw_onError?.('导出失败')")
+        }
+    }
+
+    /** Post a "new reply" notification; tapping it reopens the app on that session */
+    @JavascriptInterface
+    fun notifyReply(sessionKey: String, title: String, body: String) {
+        activity.runOnUiThread {
+            if (ReplyNotifier.canPost(activity)) {
+                ReplyNotifier.show(activity, sessionKey, title, body)
+            } else if (
+                Build.VERSION.SDK_INT >= Build.VERSION_CODES.TIRAMISU &&
+                !askedNotificationPermission &&
+                activity.lifecycle.currentState.isAtLeast(Lifecycle.State.RESUMED)
+            ) {
+                // Ask once per launch, on the first reply worth notifying about that
+                // arrives while the user is looking (another session's reply)
+                askedNotificationPermission = true
+                pendingNotification = Triple(sessionKey, title, body)
+                pendingAction = "notify"
+                permissionLauncher.launch(arrayOf(Manifest.permission.POST_NOTIFICATIONS))
+            }
+        }
+    }
+
+    @JavascriptInterface
+    fun clearReplyNotification(sessionKey: String) {
+        ReplyNotifier.clear(activity, sessionKey)
+    }
+
+    /** Called by SPA after load: a session a notification tap asked for before JS was ready */
+    @JavascriptInterface
+    fun getPendingSession(): String {
+        val result = pendingSessionKey ?: ""
+        pendingSessionKey = null
+        return result
+    }
+
+    /** Route a notification tap to the SPA, or keep it until the SPA asks */
+    fun openSession(sessionKey: String) {
+        pendingSessionKey = sessionKey
+        val script = "window.__lilclaw_onOpenSession ? (window.__lilclaw_onOpenSession(${JSONObject.quote(sessionKey)}), true) : false"
+        activity.runOnUiThread {
+            webViewRef()?.evaluateJavascript(script) { handled ->
+                if (handled == "true") pendingSessionKey = null
+            }
         }
     }
 
@@ -310,6 +444,40 @@ class NativeBridge(
         }
     }
 
+    private fun sendDocumentToWeb(uri: Uri) {
+        try {
+            val bytes = activity.contentResolver.openInputStream(uri)?.use { it.readBytes() } ?: return
+            if (bytes.size > MAX_FILE_BYTES) {
+                callJs("window.__lilclaw_onDocumentPicked?.(null, '文件太大，请选择 10MB 以内的文件')")
+                return
+            }
+            val base64 = Base64.encodeToString(bytes, Base64.NO_WRAP)
+            callJs("window.__lilclaw_onDocumentPicked?.('$base64')")
+        } catch (e: Exception) {
+            Log.e("NativeBridge", "Failed to read document", e)
+            callJs("window.__lilclaw_onDocumentPicked?.(null, '读取文件失败')")
+        }
+    }
+
+    private fun sendFileToWeb(uri: Uri) {
+        try {
+            val name = activity.contentResolver.query(uri, arrayOf(OpenableColumns.DISPLAY_NAME), null, null, null)
+                ?.use { cursor -> if (cursor.moveToFirst()) cursor.getString(0) else null }
+                ?: uri.lastPathSegment ?: "file"
+            val bytes = activity.contentResolver.openInputStream(uri)?.use { it.readBytes() } ?: return
+            if (bytes.size > MAX_FILE_BYTES) {
+                callJs("window.__lilclaw_onError?.('文件太大，请选择 10MB 以内的文件')")
+                return
+            }
+            val mime = activity.contentResolver.getType(uri) ?: "application/octet-stream"
+            val base64 = Base64.encodeToString(bytes, Base64.NO_WRAP)
+            callJs("window.__lilclaw_onFilePicked?.('data:$mime;base64,$base64', ${JSONObject.quote(name)})")
+        } catch (e: Exception) {
+            Log.e("NativeBridge", "Failed to read file", e)
+            callJs("window.__lilclaw_onError?.('读取文件失败')")
+        }
+    }
+
     private fun downscaleImage(bytes: ByteArray, maxDimension: Int): ByteArray {
         // Decode bounds only
         val options = BitmapFactory.Options().apply { inJustDecodeBounds = true }
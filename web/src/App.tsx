@@ -3,36 +3,45 @@ import { useStore } from './store'
 import ChatScreen from './components/ChatScreen'
 import SessionDrawer from './components/SessionDrawer'
 import Settings from './components/Settings'
+import SearchScreen from './components/SearchScreen'
+import ImportDialog from './components/ImportDialog'
+import ActionCardEditor from './components/ActionCardEditor'
 import Welcome from './components/Welcome'
 import ToastContainer from './components/Toast'
-import { mockConversation } from './lib/mockData'
+import { MOCK_MODE } from './lib/mockGateway'
+import { takePendingSession } from './lib/notify'
 
-const USE_MOCK = new URLSearchParams(window.location.search).has('mock')
+declare global {
+  interface Window {
+    __lilclaw_onOpenSession?: (sessionKey: string) => void
+  }
+}
+
+// A reply notification was tapped: show that session, above anything else that was open
+function openSessionFromNotification(sessionKey: string) {
+  useStore.setState({ showSettings: false, showSearch: false, showImport: false, showActionEditor: false })
+  useStore.getState().switchSession(sessionKey)
+}
 
 export default function App() {
-  const { showSettings, connect, loadCachedMessages } = useStore()
+  const { showSettings, showSearch, showImport, showActionEditor, connect, loadCachedMessages } = useStore()
 
   useEffect(() => {
-    if (USE_MOCK) {
-      useStore.setState((state) => ({
-        connectionState: 'connected',
-        cacheLoaded: true,
-        sessions: [
-          { key: 'main', label: '聊天 UI 渲染测试' },
-          { key: 'coding', label: '写一个 Todo App' },
-          { key: 'research' },
-        ],
-        messages: {
-          ...state.messages,
-          main: mockConversation,
-        },
-      }))
+    if (MOCK_MODE) {
+      // Simulated gateway — its cache (see messageDb) starts empty, nothing to load
+      useStore.setState({ cacheLoaded: true })
+      connect()
     } else {
       loadCachedMessages().then(() => {
         connect()
       })
     }
+    window.__lilclaw_onOpenSession = openSessionFromNotification
+    // Cold start from a notification: the tap arrived before this page did
+    const pending = takePendingSession()
+    if (pending) openSessionFromNotification(pending)
     return () => {
+      window.__lilclaw_onOpenSession = undefined
       // Cleanup: disconnect on unmount (prevents double WS in StrictMode)
       useStore.getState().disconnect()
     }
@@ -43,6 +52,9 @@ export default function App() {
       <ChatScreen />
       <SessionDrawer />
       {showSettings && <Settings />}
+      {showSearch && <SearchScreen />}
+      {showImport && <ImportDialog />}
+      {showActionEditor && <ActionCardEditor />}
       <Welcome />
       <ToastContainer />
     </div>
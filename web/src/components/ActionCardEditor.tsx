@@ -0,0 +1,564 @@
+import { useEffect, useRef, useState } from 'react'
+import { useStore } from '../store'
+import {
+  ACTION_COLORS,
+  ACTION_COLOR_CLASS,
+  ACTION_FIELD_TYPES,
+  ACTION_INPUT_MODES,
+  BUILTIN_ACTIONS,
+  BUILTIN_VARIABLES,
+  INPUT_PLACEHOLDER,
+  checkFieldDefinitions,
+  newActionCard,
+  parseActionsFile,
+  serializeActions,
+  type ActionCard,
+  type ActionField,
+} from '../lib/actions'
+import { saveExport } from '../lib/exporter'
+import { base64ToText } from '../lib/dataUrl'
+import ConfirmDialog from './ConfirmDialog'
+import { showToast } from './Toast'
+
+// Titles share a three-column grid with the rest
+const MAX_TITLE_LENGTH = 8
+
+const modeLabel = (card: ActionCard) => ACTION_INPUT_MODES.find((m) => m.value === card.inputMode)?.label ?? ''
+
+function Field({ label, hint, children }: { label: string; hint?: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <span className="block text-[12px] text-gray-500 dark:text-gray-400 mb-1.5">{label}</span>
+      {children}
+      {hint && <p className="mt-1 text-[11px] text-gray-400 dark:text-gray-500">{hint}</p>}
+    </div>
+  )
+}
+
+const inputClass = 'w-full px-3 py-2 text-[14px] rounded-xl bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-amber-700/40'
+
+const OPTION_SEPARATOR_RE = /[,，、]/
+
+const segmentClass = (selected: boolean) => selected
+  ? 'bg-gray-900 dark:bg-white text-white dark:text-gray-900'
+  : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 active:bg-gray-200 dark:active:bg-gray-700'
+
+function FieldRow({ field, onChange, onRemove }: {
+  field: ActionField
+  onChange: (field: ActionField) => void
+  onRemove: () => void
+}) {
+  // Typed as text so a trailing separator survives until the next option
+  const [optionsText, setOptionsText] = useState((field.options ?? []).join('、'))
+  const update = (patch: Partial<ActionField>) => onChange({ ...field, ...patch })
+
+  return (
+    <div className="p-3 space-y-2 rounded-xl border border-gray-100 dark:border-gray-800">
+      <div className="flex gap-2">
+        <input
+          value={field.label}
+          onChange={(e) => update({ label: e.target.value })}
+          placeholder="显示名称，如：城市"
+          className={`${inputClass} flex-1`}
+        />
+        <input
+          value={field.name}
+          onChange={(e) => update({ name: e.target.value.trim() })}
+          placeholder="变量名"
+          className={`${inputClass} w-24 font-mono text-[13px]`}
+        />
+        <button
+          onClick={onRemove}
+          className="p-1.5 rounded-lg text-red-400 active:bg-red-50 dark:active:bg-red-500/10"
+          aria-label="删除字段"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+      <div className="flex gap-1.5">
+        {ACTION_FIELD_TYPES.map((t) => (
+          <button
+            key={t.value}
+            // A default from another type rarely makes sense in the new one
+            onClick={() => update({ type: t.value, defaultValue: undefined })}
+            className={`flex-1 py-1 rounded-lg text-[12px] font-medium transition-all ${segmentClass(field.type === t.value)}`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+      {field.type === 'choice' && (
+        <input
+          value={optionsText}
+          onChange={(e) => {
+            setOptionsText(e.target.value)
+            const options = e.target.value.split(OPTION_SEPARATOR_RE).map((o) => o.trim()).filter(Boolean)
+            update({
+              options: [...new Set(options)],
+              defaultValue: field.defaultValue && options.includes(field.defaultValue) ? field.defaultValue : undefined,
+            })
+          }}
+          placeholder="选项，用顿号或逗号分隔"
+          className={inputClass}
+        />
+      )}
+      <div className="flex items-center gap-2">
+        {field.type === 'choice' ? (
+          <select
+            value={field.defaultValue ?? ''}
+            onChange={(e) => update({ defaultValue: e.target.value || undefined })}
+            className={`${inputClass} flex-1`}
+          >
+            <option value="">无默认值</option>
+            {(field.options ?? []).map((o) => <option key={o} value={o}>{o}</option>)}
+          </select>
+        ) : (
+          <input
+            type={field.type === 'text' ? 'text' : field.type}
+            value={field.defaultValue ?? ''}
+            onChange={(e) => update({ defaultValue: e.target.value || undefined })}
+            placeholder={field.type === 'date' ? '' : '默认值（可不填）'}
+            className={`${inputClass} flex-1`}
+          />
+        )}
+        <label className="flex items-center gap-1 text-[12px] text-gray-500 dark:text-gray-400 flex-shrink-0">
+          <input
+            type="checkbox"
+            checked={!!field.optional}
+            onChange={(e) => update({ optional: e.target.checked || undefined })}
+          />
+          选填
+        </label>
+      </div>
+    </div>
+  )
+}
+
+function CardForm({ initial, onSave, onCancel }: {
+  initial: ActionCard
+  onSave: (card: ActionCard) => void
+  onCancel: () => void
+}) {
+  const [card, setCard] = useState(initial)
+  const update = (patch: Partial<ActionCard>) => setCard((c) => ({ ...c, ...patch }))
+  const fields = card.fields ?? []
+  const fieldProblem = checkFieldDefinitions(fields)
+  const valid = card.icon.trim() !== '' && card.title.trim() !== '' && card.promptTemplate.trim() !== '' && !fieldProblem
+
+  // Names change as they're typed, so rows are keyed by position — and
+  // remount when one is added or removed, so none keeps another's state
+  const setField = (index: number, field: ActionField) => update({ fields: fields.map((f, i) => (i === index ? field : f)) })
+  const insertVariable = (name: string) => update({ promptTemplate: `${card.promptTemplate}\${${name}}` })
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      {/* Live preview */}
+      <div className="flex justify-center">
+        <div className={`flex flex-col items-center gap-1.5 w-24 p-3 rounded-2xl border ${ACTION_COLOR_CLASS[card.color]}`}>
+          <span className="text-2xl">{card.icon || '？'}</span>
+          <span className="text-[12px] font-medium text-gray-700 dark:text-gray-300 leading-tight truncate max-w-full">
+            {card.title || '标题'}
+          </span>
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <div className="w-20">
+          <Field label="图标">
+            <input
+              value={card.icon}
+              // Room for one emoji, including multi-codepoint ones like 👨‍👩‍👧
+              onChange={(e) => update({ icon: [...e.target.value].slice(0, 8).join('') })}
+              className={`${inputClass} text-center text-lg`}
+            />
+          </Field>
+        </div>
+        <div className="flex-1">
+          <Field label="标题">
+            <input
+              value={card.title}
+              onChange={(e) => update({ title: e.target.value.slice(0, MAX_TITLE_LENGTH) })}
+              placeholder="例如：看病历"
+              className={inputClass}
+            />
+          </Field>
+        </div>
+      </div>
+
+      <Field label="说明" hint="选中卡片后显示在输入框里">
+        <input
+          value={card.description}
+          onChange={(e) => update({ description: e.target.value })}
+          placeholder="例如：拍下病历，帮你解释"
+          className={inputClass}
+        />
+      </Field>
+
+      <Field label="颜色">
+        <div className="flex gap-2">
+          {ACTION_COLORS.map((color) => (
+            <button
+              key={color}
+              onClick={() => update({ color })}
+              className={`w-8 h-8 rounded-full border-2 ${ACTION_COLOR_CLASS[color]} ${
+                card.color === color ? '!border-gray-900 dark:!border-white' : ''
+              }`}
+              aria-label={color}
+            />
+          ))}
+        </div>
+      </Field>
+
+      <Field label="输入方式">
+        <div className="grid grid-cols-3 gap-1.5">
+          {ACTION_INPUT_MODES.map((mode) => (
+            <button
+              key={mode.value}
+              onClick={() => update({ inputMode: mode.value })}
+              className={`py-1.5 rounded-lg text-[12px] font-medium transition-all ${segmentClass(card.inputMode === mode.value)}`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+      </Field>
+
+      <Field label="表单字段" hint="选中卡片时先填表，模板里用 ${变量名} 引用">
+        <div className="space-y-2">
+          {fields.map((field, i) => (
+            <FieldRow
+              key={`${i}/${fields.length}`}
+              field={field}
+              onChange={(f) => setField(i, f)}
+              onRemove={() => update({ fields: fields.filter((_, j) => j !== i) })}
+            />
+          ))}
+          <button
+            onClick={() => update({ fields: [...fields, { name: `field${fields.length + 1}`, label: '', type: 'text' }] })}
+            className="w-full py-2 rounded-xl border border-dashed border-gray-200 dark:border-gray-700 text-[13px] text-gray-500 dark:text-gray-400 active:bg-gray-50 dark:active:bg-gray-800"
+          >
+            ＋ 添加字段
+          </button>
+          {fieldProblem && <p className="text-[12px] text-red-500">{fieldProblem}</p>}
+        </div>
+      </Field>
+
+      <Field label="提示模板" hint={`${INPUT_PLACEHOLDER} 会换成你输入的内容；点下面的变量插入模板`}>
+        <textarea
+          value={card.promptTemplate}
+          onChange={(e) => update({ promptTemplate: e.target.value })}
+          rows={5}
+          className={`${inputClass} resize-none leading-relaxed`}
+        />
+        <div className="flex flex-wrap gap-1.5 mt-1.5">
+          {[
+            { name: 'input', label: '输入内容' },
+            ...fields.filter((f) => f.name).map((f) => ({ name: f.name, label: f.label || f.name })),
+            ...BUILTIN_VARIABLES,
+          ].map((v) => (
+            <button
+              key={v.name}
+              onClick={() => insertVariable(v.name)}
+              className="px-2.5 py-1 rounded-full text-[12px] bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 active:bg-gray-200 dark:active:bg-gray-700"
+            >
+              {v.label}
+            </button>
+          ))}
+        </div>
+      </Field>
+
+      <div className="flex gap-2 pt-2">
+        <button
+          onClick={onCancel}
+          className="flex-1 py-2.5 rounded-xl text-sm font-medium bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 active:bg-gray-200 dark:active:bg-gray-700"
+        >
+          取消
+        </button>
+        <button
+          onClick={() => onSave({
+            ...card,
+            icon: card.icon.trim(),
+            title: card.title.trim(),
+            description: card.description.trim(),
+            fields: fields.length > 0
+              ? fields.map((f) => ({ ...f, label: f.label.trim(), options: f.type === 'choice' ? f.options : undefined }))
+              : undefined,
+          })}
+          disabled={!valid}
+          className="flex-1 py-2.5 rounded-xl text-sm font-medium bg-gray-900 dark:bg-white text-white dark:text-gray-900 disabled:opacity-40"
+        >
+          保存
+        </button>
+      </div>
+    </div>
+  )
+}
+
+/** Settings-style overlay: create, edit, reorder and delete cards; share them as JSON */
+export default function ActionCardEditor() {
+  const { actionCards, setActionCards, setShowActionEditor } = useStore()
+  const [editing, setEditing] = useState<ActionCard | null>(null)
+  const [pendingDelete, setPendingDelete] = useState<ActionCard | null>(null)
+  const [imported, setImported] = useState<ActionCard[] | null>(null)
+  const [confirmReset, setConfirmReset] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const isNew = editing !== null && !actionCards.some((c) => c.id === editing.id)
+
+  const handleText = (text: string) => {
+    const result = parseActionsFile(text)
+    if (!result.ok) {
+      showToast(result.error, 'error')
+    } else if (result.value.length === 0) {
+      showToast('文件里没有卡片', 'error')
+    } else {
+      setImported(result.value)
+    }
+  }
+
+  useEffect(() => {
+    (window as unknown as Record<string, unknown>).__lilclaw_onDocumentPicked = (base64: string | null, error?: string) => {
+      if (base64 === null) {
+        showToast(error ?? '读取文件失败', 'error')
+        return
+      }
+      try {
+        handleText(base64ToText(base64))
+      } catch {
+        showToast('读取文件失败', 'error')
+      }
+    }
+    return () => {
+      delete (window as unknown as Record<string, unknown>).__lilclaw_onDocumentPicked
+    }
+  })
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return
+      if (editing) setEditing(null)
+      else setShowActionEditor(false)
+    }
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [editing, setShowActionEditor])
+
+  const pickFile = () => {
+    // The Android WebView has no file chooser — the bridge opens the system picker
+    const bridge = window.LilClaw as unknown as { pickDocument?: (mimeType: string) => void } | undefined
+    if (bridge?.pickDocument) {
+      bridge.pickDocument('*/*')
+    } else {
+      fileInputRef.current?.click()
+    }
+  }
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta
+    if (target < 0 || target >= actionCards.length) return
+    const next = [...actionCards]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    setActionCards(next)
+  }
+
+  const save = (card: ActionCard) => {
+    setActionCards(isNew ? [...actionCards, card] : actionCards.map((c) => (c.id === card.id ? card : c)))
+    setEditing(null)
+  }
+
+  const exportCards = () => {
+    const date = new Date().toLocaleDateString('sv-SE') // YYYY-MM-DD in local time
+    saveExport({ filename: `lilclaw-cards-${date}.json`, mimeType: 'application/json', content: serializeActions(actionCards) })
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-white dark:bg-[#1a1410] animate-fade-in">
+      <div className="flex items-center gap-2 px-3 py-2.5 border-b border-gray-100 dark:border-gray-800 safe-top">
+        <button
+          onClick={() => (editing ? setEditing(null) : setShowActionEditor(false))}
+          className="flex items-center justify-center p-2 -ml-1 rounded-xl active:bg-gray-100 dark:active:bg-gray-800"
+          aria-label="Back"
+        >
+          <svg className="w-5 h-5 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <h2 className="text-[16px] font-semibold text-gray-900 dark:text-white">
+          {editing ? (isNew ? '新建卡片' : '编辑卡片') : '快捷卡片'}
+        </h2>
+      </div>
+
+      {editing ? (
+        <CardForm initial={editing} onSave={save} onCancel={() => setEditing(null)} />
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              e.target.value = ''
+              if (!file) return
+              file.text().then(handleText, () => showToast('读取文件失败', 'error'))
+            }}
+          />
+
+          <div className="rounded-xl border border-gray-100 dark:border-gray-800 divide-y divide-gray-100 dark:divide-gray-800">
+            {actionCards.length === 0 && (
+              <p className="px-4 py-6 text-center text-[13px] text-gray-400 dark:text-gray-500">还没有卡片</p>
+            )}
+            {actionCards.map((card, i) => (
+              <div key={card.id} className="flex items-center gap-3 px-3 py-2.5">
+                <button onClick={() => setEditing(card)} className="flex-1 min-w-0 flex items-center gap-3 text-left">
+                  <span className={`w-9 h-9 flex items-center justify-center rounded-xl border text-lg flex-shrink-0 ${ACTION_COLOR_CLASS[card.color]}`}>
+                    {card.icon}
+                  </span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-[14px] text-gray-900 dark:text-gray-100 truncate">{card.title}</span>
+                    <span className="block text-[11px] text-gray-400 dark:text-gray-500 truncate">
+                      {modeLabel(card)}{card.description && ` · ${card.description}`}
+                    </span>
+                  </span>
+                </button>
+                <div className="flex items-center flex-shrink-0 text-gray-400 dark:text-gray-500">
+                  <button
+                    onClick={() => move(i, -1)}
+                    disabled={i === 0}
+                    className="p-1.5 rounded-lg active:bg-gray-100 dark:active:bg-gray-800 disabled:opacity-30"
+                    aria-label="上移"
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 15.75l7.5-7.5 7.5 7.5" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => move(i, 1)}
+                    disabled={i === actionCards.length - 1}
+                    className="p-1.5 rounded-lg active:bg-gray-100 dark:active:bg-gray-800 disabled:opacity-30"
+                    aria-label="下移"
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => setPendingDelete(card)}
+                    className="p-1.5 rounded-lg text-red-400 active:bg-red-50 dark:active:bg-red-500/10"
+                    aria-label="删除"
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={() => setEditing(newActionCard())}
+            className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl border border-dashed border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400 text-sm active:scale-[0.98]"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+            </svg>
+            <span>新建卡片</span>
+          </button>
+
+          <div className="space-y-2 pt-2">
+            <p className="text-[12px] text-gray-400 dark:text-gray-500">
+              导出成文件发给家人，对方导入后就有同样的卡片。
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={exportCards}
+                disabled={actionCards.length === 0}
+                className="flex-1 py-2.5 rounded-xl text-sm font-medium bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 active:bg-gray-200 dark:active:bg-gray-700 disabled:opacity-40"
+              >
+                导出卡片
+              </button>
+              <button
+                onClick={pickFile}
+                className="flex-1 py-2.5 rounded-xl text-sm font-medium bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 active:bg-gray-200 dark:active:bg-gray-700"
+              >
+                导入卡片
+              </button>
+            </div>
+            <button
+              onClick={() => setConfirmReset(true)}
+              className="w-full py-2.5 rounded-xl text-sm text-gray-400 dark:text-gray-500 active:bg-gray-50 dark:active:bg-gray-800"
+            >
+              恢复默认卡片
+            </button>
+          </div>
+        </div>
+      )}
+
+      {pendingDelete && (
+        <ConfirmDialog
+          title="删除卡片"
+          message={`确定要删除「${pendingDelete.title}」吗？`}
+          confirmLabel="删除"
+          danger
+          onConfirm={() => {
+            setActionCards(actionCards.filter((c) => c.id !== pendingDelete.id))
+            setPendingDelete(null)
+          }}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
+
+      {confirmReset && (
+        <ConfirmDialog
+          title="恢复默认卡片"
+          message="自己添加和修改的卡片都会被替换，确定吗？"
+          confirmLabel="恢复"
+          danger
+          onConfirm={() => { setActionCards(BUILTIN_ACTIONS); setConfirmReset(false) }}
+          onCancel={() => setConfirmReset(false)}
+        />
+      )}
+
+      {/* Imported cards: add to the list, or replace it (setting up someone else's phone) */}
+      {imported && (
+        <div className="fixed inset-0 z-[70] flex items-center justify-center p-6">
+          <div className="absolute inset-0 bg-black/50" onClick={() => setImported(null)} />
+          <div className="relative w-full max-w-xs bg-white dark:bg-[#1e1812] rounded-2xl shadow-2xl overflow-hidden animate-fade-in">
+            <div className="p-5 text-center">
+              <h3 className="text-[17px] font-semibold text-gray-900 dark:text-white mb-1.5">
+                导入 {imported.length} 张卡片
+              </h3>
+              <p className="text-[14px] text-gray-500 dark:text-gray-400 leading-relaxed">
+                添加到现有卡片后面，还是替换现有卡片？
+              </p>
+            </div>
+            <div className="flex flex-col border-t border-gray-100 dark:border-gray-700">
+              <button
+                onClick={() => { setActionCards([...actionCards, ...imported]); setImported(null) }}
+                className="py-3.5 text-[15px] font-semibold text-amber-700 dark:text-amber-500 active:bg-amber-50 dark:active:bg-amber-500/10 border-b border-gray-100 dark:border-gray-700"
+              >
+                添加
+              </button>
+              <button
+                onClick={() => { setActionCards(imported); setImported(null) }}
+                className="py-3.5 text-[15px] font-medium text-red-500 active:bg-red-50 dark:active:bg-red-500/10 border-b border-gray-100 dark:border-gray-700"
+              >
+                替换
+              </button>
+              <button
+                onClick={() => setImported(null)}
+                className="py-3.5 text-[15px] font-medium text-gray-500 dark:text-gray-400 active:bg-gray-50 dark:active:bg-gray-800"
+              >
+                取消
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,17 +1,20 @@
-import { type ActionCard, BUILTIN_ACTIONS } from '../lib/actions'
+import { useStore } from '../store'
+import { type ActionCard, ACTION_COLOR_CLASS } from '../lib/actions'
 
 interface ActionCardsProps {
   onSelect: (action: ActionCard) => void
 }
 
 export default function ActionCards({ onSelect }: ActionCardsProps) {
+  const { actionCards, setShowActionEditor } = useStore()
+
   return (
     <div className="grid grid-cols-3 gap-2.5 max-w-[340px]">
-      {BUILTIN_ACTIONS.map((action) => (
+      {actionCards.map((action) => (
         <button
           key={action.id}
           onClick={() => onSelect(action)}
-          className={`flex flex-col items-center gap-1.5 p-3 rounded-2xl border transition-all active:scale-95 ${action.color}`}
+          className={`flex flex-col items-center gap-1.5 p-3 rounded-2xl border transition-all active:scale-95 ${ACTION_COLOR_CLASS[action.color]}`}
         >
           <span className="text-2xl">{action.icon}</span>
           <span className="text-[12px] font-medium text-gray-700 dark:text-gray-300 leading-tight">
@@ -19,6 +22,15 @@ export default function ActionCards({ onSelect }: ActionCardsProps) {
           </span>
         </button>
       ))}
+      <button
+        onClick={() => setShowActionEditor(true)}
+        className="flex flex-col items-center justify-center gap-1.5 p-3 rounded-2xl border border-dashed border-gray-200 dark:border-gray-700 text-gray-400 dark:text-gray-500 transition-all active:scale-95"
+      >
+        <span className="text-2xl leading-none">＋</span>
+        <span className="text-[12px] font-medium leading-tight">
+          {actionCards.length === 0 ? '添加卡片' : '管理'}
+        </span>
+      </button>
     </div>
   )
 }
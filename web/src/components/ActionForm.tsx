@@ -0,0 +1,60 @@
+import type { ActionField } from '../lib/actions'
+
+interface ActionFormProps {
+  fields: ActionField[]
+  values: Record<string, string>
+  errors: Record<string, string>
+  onChange: (name: string, value: string) => void
+}
+
+/** Form sheet above the composer: the blanks of the selected card's template */
+export default function ActionForm({ fields, values, errors, onChange }: ActionFormProps) {
+  return (
+    <div className="mx-3 mt-2 p-3 space-y-2.5 max-h-[40vh] overflow-y-auto rounded-2xl bg-gray-50 dark:bg-gray-800/50 border border-gray-100 dark:border-gray-800 animate-fade-in">
+      {fields.map((field) => {
+        const value = values[field.name] ?? ''
+        const error = errors[field.name]
+        return (
+          <div key={field.name}>
+            <div className="flex items-baseline justify-between mb-1 text-[12px]">
+              <span className="text-gray-600 dark:text-gray-400">
+                {field.label}
+                {field.optional && <span className="text-gray-400 dark:text-gray-500">（选填）</span>}
+              </span>
+              {error && <span className="text-red-500">{error}</span>}
+            </div>
+            {field.type === 'choice' ? (
+              <div className="flex flex-wrap gap-1.5">
+                {(field.options ?? []).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    // Tapping the chosen option again clears an optional field
+                    onClick={() => onChange(field.name, value === option && field.optional ? '' : option)}
+                    className={`px-3 py-1.5 rounded-full text-[13px] font-medium transition-all ${
+                      value === option
+                        ? 'bg-gray-900 dark:bg-white text-white dark:text-gray-900'
+                        : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-400 border border-gray-200 dark:border-gray-700 active:bg-gray-100 dark:active:bg-gray-700'
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <input
+                type={field.type === 'text' ? 'text' : field.type}
+                inputMode={field.type === 'number' ? 'decimal' : undefined}
+                value={value}
+                onChange={(e) => onChange(field.name, e.target.value)}
+                className={`w-full px-3 py-2 text-[15px] rounded-xl bg-white dark:bg-[#231c14] border text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-amber-700/40 ${
+                  error ? 'border-red-300 dark:border-red-800' : 'border-gray-200 dark:border-gray-700'
+                }`}
+              />
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react'
+import { attachmentUrl, type AttachmentVariant } from '../lib/attachments'
+import type { MessageContent } from '../lib/gateway'
+
+interface AttachmentImageProps {
+  image: MessageContent
+  variant: AttachmentVariant
+  className?: string
+  alt?: string
+  onClick?: (e: React.MouseEvent) => void
+}
+
+/** Resolve an image part's src — a stored attachment, or a plain URL */
+export function useImageSrc(image: MessageContent, variant: AttachmentVariant): string | null | undefined {
+  const [resolved, setResolved] = useState<{ key: string; src: string | null } | null>(null)
+  const key = image.attachmentId ? `${image.attachmentId}:${variant}` : ''
+
+  useEffect(() => {
+    if (!image.attachmentId) return
+    let cancelled = false
+    attachmentUrl(image.attachmentId, variant).then((src) => {
+      if (!cancelled) setResolved({ key, src })
+    })
+    return () => { cancelled = true }
+  }, [image.attachmentId, variant, key])
+
+  if (!image.attachmentId) return image.url ?? null
+  // undefined while loading, null once we know it's gone
+  return resolved?.key === key ? resolved.src : undefined
+}
+
+export default function AttachmentImage({ image, variant, className, alt = '图片', onClick }: AttachmentImageProps) {
+  const src = useImageSrc(image, variant)
+
+  if (src === undefined) {
+    return <div className={`${className ?? ''} w-40 h-32 bg-black/5 dark:bg-white/5 animate-pulse`} />
+  }
+  if (src === null) {
+    return (
+      <div className={`${className ?? ''} px-3 py-2 text-[12px] text-gray-400 dark:text-gray-500 bg-black/5 dark:bg-white/5`}>
+        图片已删除
+      </div>
+    )
+  }
+  return <img src={src} alt={alt} className={className} onClick={onClick} />
+}
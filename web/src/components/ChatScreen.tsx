@@ -1,15 +1,35 @@
-import { useState, useRef, useEffect, useCallback, type FormEvent } from 'react'
+import { useState, useRef, useEffect, useLayoutEffect, useCallback, useMemo, type FormEvent } from 'react'
 import { useStore } from '../store'
 import MessageBubble from './MessageBubble'
+import ContextMenu, { type ContextMenuItem } from './ContextMenu'
 import ActionCards from './ActionCards'
-import VoiceButton from './VoiceButton'
-import type { ActionCard } from '../lib/actions'
+import ActionForm from './ActionForm'
+import VoiceButton, { type VoiceButtonHandle } from './VoiceButton'
+import ModelPicker from './ModelPicker'
+import InstructionsEditor from './InstructionsEditor'
+import CommandPalette, { CommandHint } from './CommandPalette'
+import {
+  builtinVariables,
+  extractLink,
+  fieldVariables,
+  fillTemplate,
+  initialFieldValues,
+  validateFieldValues,
+  type ActionCard,
+} from '../lib/actions'
 import { haptic } from '../lib/haptic'
 import { formatDateSeparator, isDifferentDay } from '../lib/dateSeparator'
+import { liveVariants } from '../lib/branches'
+import { THINKING_LABELS, findModel, modelLabel, modelRef, sessionModelRef, sessionThinkingLevel } from '../lib/models'
+import { argsRequired, matchCommands, parseSlashCommand, type SlashCommand } from '../lib/commands'
+import type { ExportFormat } from '../lib/exporter'
+
+const EXPORT_FORMATS: Record<string, ExportFormat> = { md: 'markdown', markdown: 'markdown', html: 'html', json: 'json' }
 
 function ConnectionBanner() {
   const { connectionState, cacheLoaded, pendingMessages } = useStore()
-  const pendingCount = pendingMessages.length
+  // Failed messages are shown on their bubbles; in-flight sends need no banner
+  const pendingCount = pendingMessages.filter((p) => p.status === 'queued').length
 
   if (connectionState === 'connected' && pendingCount === 0) return null
 
@@ -141,26 +161,71 @@ export default function ChatScreen() {
     sendMessage,
     abortChat,
     retryLastMessage,
+    retryMessage,
+    editMessage,
+    switchBranch,
+    branches,
+    focusMessage,
+    clearFocusMessage,
+    loadOlderMessages,
+    historyPages,
+    cachedOlder,
+    loadingOlder,
     setShowDrawer,
     setShowSettings,
+    unread,
+    sessions,
+    models,
     getSessionDisplayName,
     isGenerating,
+    exportConversations,
+    createSession,
+    renameSession,
+    setSessionModel,
+    clearSession,
+    resetSession,
+    compactSession,
+    cacheLoaded,
+    actionCards,
+    setDraft,
   } = useStore()
 
   const [input, setInput] = useState('')
   const [pendingImage, setPendingImage] = useState<{mimeType: string; content: string; dataUrl: string} | null>(null)
+  const [pendingFile, setPendingFile] = useState<{mimeType: string; content: string; name: string} | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const voiceRef = useRef<VoiceButtonHandle>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const messagesContainerRef = useRef<HTMLDivElement>(null)
   const wasAtBottomRef = useRef(true)
   const [showScrollBtn, setShowScrollBtn] = useState(false)
-  const prevMessageCountRef = useRef(0)
+  // Session menu, opened from the header title
+  const [headerMenu, setHeaderMenu] = useState<{ x: number; y: number } | null>(null)
+  const [showModelPicker, setShowModelPicker] = useState(false)
+  const [showInstructions, setShowInstructions] = useState(false)
+  const prevLastIdRef = useRef<string | null>(null)
+  // Scroll position captured before an older page is prepended
+  const scrollAnchorRef = useRef<{ height: number; top: number } | null>(null)
 
   const currentMessages = messages[currentSessionKey] || []
+  const variants = useMemo(
+    () => liveVariants(currentMessages, branches[currentSessionKey] || []),
+    [currentMessages, branches, currentSessionKey],
+  )
   const currentStreaming = streaming[currentSessionKey]
   const isTyping = typing[currentSessionKey] || false
   const displayName = getSessionDisplayName(currentSessionKey)
+  const currentSession = sessions.find((s) => s.key === currentSessionKey)
+  const currentModel = sessionModelRef(currentSession)
+  const currentThinking = sessionThinkingLevel(currentSession)
+  const modelSummary = [
+    currentModel ? modelLabel(currentModel, models) : '默认模型',
+    currentThinking && `思考 ${THINKING_LABELS[currentThinking]}`,
+  ].filter(Boolean).join(' · ')
   const generating = isGenerating()
+  const hasOlder = !!cachedOlder[currentSessionKey] || !!historyPages[currentSessionKey]?.hasMore
+  const isLoadingOlder = !!loadingOlder[currentSessionKey]
 
   // Auto-scroll to bottom on new messages / streaming updates.
   // Uses 'instant' during streaming to avoid jitter from competing smooth scrolls.
@@ -171,10 +236,44 @@ export default function ChatScreen() {
     messagesEndRef.current?.scrollIntoView({ behavior: isStreaming ? 'instant' : 'smooth' })
   }, [currentMessages, currentStreaming, isTyping])
 
-  // Track new messages for animation
+  // Track new messages for animation — only messages after the previous last
+  // one count as new, so a prepended older page doesn't animate
+  const prevLastIdx = prevLastIdRef.current
+    ? currentMessages.findIndex((m) => m.id === prevLastIdRef.current)
+    : -1
+  useEffect(() => {
+    prevLastIdRef.current = currentMessages[currentMessages.length - 1]?.id ?? null
+  }, [currentMessages])
+
+  // Keep the viewport on the same message while an older page is prepended
+  useLayoutEffect(() => {
+    const anchor = scrollAnchorRef.current
+    const el = messagesContainerRef.current
+    if (!anchor || !el) return
+    el.scrollTop = el.scrollHeight - anchor.height + anchor.top
+    scrollAnchorRef.current = null
+  }, [currentMessages])
+
+  // Jump to a search result once its session is on screen, then flash it
+  const [flashId, setFlashId] = useState<string | null>(null)
   useEffect(() => {
-    prevMessageCountRef.current = currentMessages.length
-  }, [currentMessages.length])
+    if (!focusMessage || focusMessage.sessionKey !== currentSessionKey) return
+    if (!currentMessages.some((m) => m.id === focusMessage.messageId)) return
+    const id = focusMessage.messageId
+    clearFocusMessage()
+    wasAtBottomRef.current = false
+    requestAnimationFrame(() => {
+      const el = messagesContainerRef.current?.querySelector(`[data-message-id="${CSS.escape(id)}"]`)
+      el?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+      setFlashId(id)
+    })
+  }, [focusMessage, currentSessionKey, currentMessages, clearFocusMessage])
+
+  useEffect(() => {
+    if (!flashId) return
+    const t = setTimeout(() => setFlashId(null), 1600)
+    return () => clearTimeout(t)
+  }, [flashId])
 
   // Scroll on container resize (keyboard open/close)
   useEffect(() => {
@@ -195,7 +294,16 @@ export default function ChatScreen() {
     const atBottom = el.scrollHeight - el.scrollTop - el.clientHeight < 60
     wasAtBottomRef.current = atBottom
     setShowScrollBtn(!atBottom)
-  }, [])
+
+    // Near the top: fetch the next older page
+    if (el.scrollTop < 80 && hasOlder && !isLoadingOlder && !scrollAnchorRef.current) {
+      scrollAnchorRef.current = { height: el.scrollHeight, top: el.scrollTop }
+      loadOlderMessages().finally(() => {
+        // Nothing was prepended (offline, error, empty page) — drop the anchor
+        requestAnimationFrame(() => { scrollAnchorRef.current = null })
+      })
+    }
+  }, [hasOlder, isLoadingOlder, loadOlderMessages])
 
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -219,10 +327,39 @@ export default function ChatScreen() {
     }
   }, [])
 
+  // Handle any file picked for sending — images still get the image preview
+  const handleFileDataUrl = useCallback((dataUrl: string, name: string) => {
+    const match = dataUrl.match(/^data:([^;]+);base64,(.+)$/)
+    if (!match) {
+      import('./Toast').then(m => m.showToast('读取文件失败', 'error'))
+    } else if (match[1].startsWith('image/')) {
+      handleImageDataUrl(dataUrl)
+    } else {
+      setPendingFile({ mimeType: match[1], content: match[2], name })
+      textareaRef.current?.focus()
+    }
+  }, [handleImageDataUrl])
+
+  // Gallery or file picker: the native one in the app, a file input in a browser
+  const pickFromDevice = useCallback((kind: 'image' | 'file') => {
+    const bridge = window.LilClaw as unknown as { pickImage?: () => void; pickFile?: () => void } | undefined
+    if (kind === 'image' && bridge?.pickImage) {
+      bridge.pickImage()
+    } else if (kind === 'file' && bridge?.pickFile) {
+      bridge.pickFile()
+    } else if (fileInputRef.current) {
+      fileInputRef.current.accept = kind === 'image' ? 'image/*' : ''
+      fileInputRef.current.click()
+    }
+  }, [])
+
   useEffect(() => {
     (window as unknown as Record<string, unknown>).__lilclaw_onImagePicked = (dataUrl: string) => {
       handleImageDataUrl(dataUrl)
     };
+    (window as unknown as Record<string, unknown>).__lilclaw_onFilePicked = (dataUrl: string, name: string) => {
+      handleFileDataUrl(dataUrl, name)
+    };
     (window as unknown as Record<string, unknown>).__lilclaw_onError = (error: string) => {
       import('./Toast').then(m => m.showToast(error, 'error'))
     }
@@ -238,6 +375,7 @@ export default function ChatScreen() {
 
     return () => {
       delete (window as unknown as Record<string, unknown>).__lilclaw_onImagePicked
+      delete (window as unknown as Record<string, unknown>).__lilclaw_onFilePicked
       delete (window as unknown as Record<string, unknown>).__lilclaw_onError
     }
   }, [sendMessage, input])
@@ -253,59 +391,271 @@ export default function ChatScreen() {
     adjustTextareaHeight()
   }, [input, adjustTextareaHeight])
 
-  // Handle Action Card selection
+  // Handle Action Card selection: the card stays active while its input is
+  // collected, and its template wraps whatever gets sent
   const handleActionSelect = useCallback((action: ActionCard) => {
-    if (action.inputMode === 'text' || action.inputMode === 'url') {
-      // For text/url actions, pre-fill the textarea with a prompt hint
-      setInput('')
-      textareaRef.current?.focus()
-      // Set a placeholder hint based on the action
-      setActiveAction(action)
-    } else if (action.inputMode === 'camera') {
-      // Try native bridge, fallback to text input
-      if (window.LilClaw && 'takePhoto' in window.LilClaw) {
-        (window.LilClaw as { takePhoto: () => void }).takePhoto()
-      } else {
-        setActiveAction(action)
-        textareaRef.current?.focus()
-      }
+    setActiveAction(action)
+    setInput('')
+    setFieldValues(initialFieldValues(action.fields ?? []))
+    setFieldErrors({})
+    switch (action.inputMode) {
+      case 'camera':
+        // Try native bridge, fallback to text input
+        if (window.LilClaw && 'takePhoto' in window.LilClaw) {
+          (window.LilClaw as { takePhoto: () => void }).takePhoto()
+        } else {
+          textareaRef.current?.focus()
+        }
+        break
+      case 'image':
+      case 'file':
+        pickFromDevice(action.inputMode)
+        break
+      case 'voice':
+        // Without speech recognition (browser, or while generating) the user types instead
+        if (!voiceRef.current?.start()) textareaRef.current?.focus()
+        break
+      default:
+        // A card with a form starts there, not in the composer
+        if (!action.fields?.length) textareaRef.current?.focus()
     }
-  }, [])
+  }, [pickFromDevice])
 
   const [activeAction, setActiveAction] = useState<ActionCard | null>(null)
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>({})
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const activeFields = activeAction?.fields ?? []
+
+  const handleFieldChange = useCallback((name: string, value: string) => {
+    setFieldValues((prev) => ({ ...prev, [name]: value }))
+    setFieldErrors((prev) => {
+      if (!(name in prev)) return prev
+      const { [name]: _cleared, ...rest } = prev
+      return rest
+    })
+  }, [])
+
+  // Drafts: the composer belongs to the session it was filled in. Switching
+  // (or reloading) puts back what was left there; every change is kept.
+  const draftKeyRef = useRef<string | null>(null)
+  const restoringRef = useRef(false)
+
+  useEffect(() => {
+    if (!cacheLoaded || draftKeyRef.current === currentSessionKey) return
+    draftKeyRef.current = currentSessionKey
+    restoringRef.current = true
+    const draft = useStore.getState().drafts[currentSessionKey]
+    // A card deleted since the draft was left is simply gone
+    const action = (draft?.actionId && useStore.getState().actionCards.find((c) => c.id === draft.actionId)) || null
+    setInput(draft?.text ?? '')
+    setPendingImage(draft?.image
+      ? { ...draft.image, dataUrl: `data:${draft.image.mimeType};base64,${draft.image.content}` }
+      : null)
+    // Files can run to megabytes — they aren't kept in drafts
+    setPendingFile(null)
+    setActiveAction(action)
+    setFieldValues(action ? { ...initialFieldValues(action.fields ?? []), ...draft?.fieldValues } : {})
+    setFieldErrors({})
+  }, [cacheLoaded, currentSessionKey])
+
+  useEffect(() => {
+    // The render that restores a draft still holds the previous session's composer
+    if (restoringRef.current) {
+      restoringRef.current = false
+      return
+    }
+    if (draftKeyRef.current !== currentSessionKey) return
+    setDraft(currentSessionKey, {
+      text: input,
+      image: pendingImage ? { mimeType: pendingImage.mimeType, content: pendingImage.content } : undefined,
+      actionId: activeAction?.id,
+      fieldValues: activeAction?.fields?.length ? fieldValues : undefined,
+    })
+  }, [cacheLoaded, input, pendingImage, activeAction, fieldValues, currentSessionKey, setDraft])
+
+  // An edited card replaces the one the composer holds; a deleted one is dropped
+  useEffect(() => {
+    setActiveAction((current) => (current ? actionCards.find((c) => c.id === current.id) ?? null : null))
+  }, [actionCards])
+
+  // Slash commands: a palette while the name is typed, a usage hint while its argument is
+  const [paletteIndex, setPaletteIndex] = useState(0)
+  const [paletteDismissed, setPaletteDismissed] = useState(false)
+  const slashQuery = !activeAction && /^\/\S*$/.test(input) ? input.slice(1) : null
+  const paletteCommands = useMemo(() => (slashQuery === null ? [] : matchCommands(slashQuery)), [slashQuery])
+  const showPalette = slashQuery !== null && !paletteDismissed
+  const typedCommand = !activeAction && slashQuery === null && input.startsWith('/') ? parseSlashCommand(input) : null
+
+  useEffect(() => {
+    setPaletteIndex(0)
+    setPaletteDismissed(false)
+  }, [slashQuery])
+
+  const runCommand = useCallback((command: SlashCommand, arg: string) => {
+    const toast = (message: string, type: 'error' | 'info' | 'success') => import('./Toast').then(m => m.showToast(message, type))
+    if (command.gateway && connectionState !== 'connected') {
+      toast(`连接后才能使用 /${command.name}`, 'error')
+      return
+    }
+    switch (command.name) {
+      case 'new': {
+        const key = `chat-${Date.now()}`
+        createSession(key)
+        if (arg) renameSession(key, arg).catch(() => {})
+        break
+      }
+      case 'rename':
+        renameSession(currentSessionKey, arg).then(
+          () => toast('已重命名', 'success'),
+          () => toast('重命名失败', 'error'),
+        )
+        break
+      case 'model': {
+        if (!arg) {
+          setShowModelPicker(true)
+        } else if (arg === 'default' || arg === '默认') {
+          setSessionModel(currentSessionKey, { model: null })
+        } else {
+          const model = findModel(arg, models)
+          if (model) setSessionModel(currentSessionKey, { model: modelRef(model) })
+          else toast(`没有找到模型「${arg}」`, 'error')
+        }
+        break
+      }
+      case 'clear':
+        clearSession(currentSessionKey)
+        break
+      case 'export': {
+        const format = EXPORT_FORMATS[(arg || 'md').toLowerCase()]
+        if (format) exportConversations(format, [currentSessionKey])
+        else toast('格式只能是 md、html 或 json', 'error')
+        break
+      }
+      case 'abort':
+        if (isGenerating()) abortChat()
+        else toast('没有正在生成的回复', 'info')
+        break
+      case 'retry':
+        retryLastMessage()
+        break
+      case 'reset':
+        resetSession(currentSessionKey)
+        break
+      case 'compact':
+        compactSession(currentSessionKey)
+        break
+    }
+  }, [connectionState, currentSessionKey, models, createSession, renameSession, setSessionModel, clearSession, exportConversations, isGenerating, abortChat, retryLastMessage, resetSession, compactSession])
+
+  // From the palette: run it, or complete the name first when it needs an argument
+  const pickCommand = useCallback((command: SlashCommand) => {
+    if (argsRequired(command)) {
+      setInput(`/${command.name} `)
+    } else {
+      setInput('')
+      runCommand(command, '')
+    }
+    textareaRef.current?.focus()
+  }, [runCommand])
+
+  // Link cards: the pasted text must contain a link, previewed before sending
+  const linkInput = useMemo(
+    () => (activeAction?.inputMode === 'url' && input.trim() ? extractLink(input) : null),
+    [activeAction, input],
+  )
 
   // Clear active action when message is sent
-  const handleSubmit = useCallback((e: FormEvent) => {
+  const handleSubmit = useCallback(async (e: FormEvent) => {
     e.preventDefault()
     const trimmed = input.trim()
-    const hasImage = !!pendingImage
-    if (!trimmed && !hasImage) return
-    setInput('')
-    if (textareaRef.current) textareaRef.current.style.height = 'auto'
 
-    // Apply action template if active
-    let finalMessage = trimmed
-    if (activeAction) {
-      finalMessage = activeAction.promptTemplate.replace('${input}', trimmed)
-      setActiveAction(null)
+    // Our slash commands run here; any other `/…` goes to the gateway as typed
+    const slash = activeAction ? null : parseSlashCommand(trimmed)
+    if (slash) {
+      if (argsRequired(slash.command) && !slash.arg) {
+        import('./Toast').then(m => m.showToast(`用法：/${slash.command.name} ${slash.command.args}`, 'info'))
+        return
+      }
+      setInput('')
+      runCommand(slash.command, slash.arg)
+      return
     }
 
-    if (hasImage) {
-      const img = pendingImage!
-      setPendingImage(null)
-      sendMessage(finalMessage || '', [{ mimeType: img.mimeType, content: img.content }])
-    } else {
-      sendMessage(finalMessage)
+    // A card with a form can be sent on its fields alone
+    if (!trimmed && !pendingImage && !pendingFile && activeFields.length === 0) return
+
+    let text = trimmed
+    let link: string | undefined
+    if (activeAction?.inputMode === 'url') {
+      const found = extractLink(trimmed)
+      if (!found) {
+        import('./Toast').then(m => m.showToast('请粘贴一个有效的链接（http:// 或 https:// 开头）', 'error'))
+        return
+      }
+      link = found.link
+      text = found.rest
+    }
+    if (activeFields.length > 0) {
+      const errors = validateFieldValues(activeFields, fieldValues)
+      if (Object.keys(errors).length > 0) {
+        setFieldErrors(errors)
+        haptic('heavy')
+        return
+      }
     }
+    setInput('')
+    if (textareaRef.current) textareaRef.current.style.height = 'auto'
+
+    // Apply action template if active; a file is named in the text either way
+    const fileName = pendingFile?.name
+    const attachments = [pendingImage, pendingFile]
+      .filter((a) => a !== null)
+      .map((a) => ({ mimeType: a.mimeType, content: a.content }))
+    const action = activeAction
+    const variables = fieldVariables(activeFields, fieldValues)
+    setActiveAction(null)
+    setPendingImage(null)
+    setPendingFile(null)
     haptic('light')
-  }, [input, sendMessage, activeAction, pendingImage])
+
+    let finalMessage = [fileName && `「${fileName}」`, text].filter(Boolean).join('\n')
+    if (action) {
+      const builtins = await builtinVariables(action.promptTemplate)
+      finalMessage = fillTemplate(action.promptTemplate, { text, link, fileName }, { ...builtins, ...variables })
+    }
+    sendMessage(finalMessage, attachments.length > 0 ? attachments : undefined)
+  }, [input, sendMessage, activeAction, activeFields, fieldValues, pendingImage, pendingFile, runCommand])
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (showPalette && paletteCommands.length > 0) {
+      const count = paletteCommands.length
+      const command = paletteCommands[Math.min(paletteIndex, count - 1)]
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        setPaletteIndex((i) => (i + (e.key === 'ArrowDown' ? 1 : count - 1)) % count)
+        return
+      }
+      if (e.key === 'Tab') {
+        e.preventDefault()
+        setInput(`/${command.name} `)
+        return
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        setPaletteDismissed(true)
+        return
+      }
+      if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault()
+        pickCommand(command)
+        return
+      }
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
       handleSubmit(e)
     }
-  }, [handleSubmit])
+  }, [handleSubmit, showPalette, paletteCommands, paletteIndex, pickCommand])
 
   const handleAbort = useCallback(() => {
     abortChat()
@@ -319,27 +669,66 @@ export default function ChatScreen() {
     return -1
   })()
 
+  const sessionMenuItems: ContextMenuItem[] = [
+    { label: currentSession?.instructions ? '编辑对话指令' : '添加对话指令', icon: '🎭', onClick: () => setShowInstructions(true) },
+    { label: '导出为 Markdown', icon: '📝', onClick: () => exportConversations('markdown', [currentSessionKey]) },
+    { label: '导出为 HTML', icon: '🌐', onClick: () => exportConversations('html', [currentSessionKey]) },
+    { label: '导出为 JSON', icon: '🗂', onClick: () => exportConversations('json', [currentSessionKey]) },
+  ]
+
+  // Branch navigator for the first message after a fork
+  const variantOf = (messageId: string) => {
+    const info = variants.get(messageId)
+    if (!info) return undefined
+    return {
+      index: info.index,
+      count: info.count,
+      onSwitch: (index: number) => switchBranch(info.pointId, index),
+    }
+  }
+
   return (
     <div className="flex flex-col h-full relative">
       {/* Top bar */}
       <header className="flex items-center justify-between px-4 py-2.5 border-b border-gray-100 dark:border-gray-800 bg-white dark:bg-[#1a1410] flex-shrink-0">
         <button
           onClick={() => setShowDrawer(true)}
-          className="flex items-center justify-center -ml-2 p-2 rounded-xl active:bg-gray-100 dark:active:bg-gray-800"
+          className="relative flex items-center justify-center -ml-2 p-2 rounded-xl active:bg-gray-100 dark:active:bg-gray-800"
           aria-label="Open sessions"
         >
           <svg className="w-5 h-5 text-gray-600 dark:text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
             <path strokeLinecap="round" strokeLinejoin="round" d="M4 6h16M4 12h16M4 18h16" />
           </svg>
+          {/* Another session has a reply waiting */}
+          {Object.keys(unread).length > 0 && (
+            <span className="absolute top-1.5 right-1.5 w-2 h-2 rounded-full bg-red-500" />
+          )}
         </button>
 
-        <div className="flex flex-col items-center">
-          <h1 className="font-semibold text-[15px] text-gray-900 dark:text-white truncate max-w-[200px]">
-            {displayName}
-          </h1>
-          <div className="flex items-center gap-1 mt-0.5">
+        <div className="flex flex-col items-center min-w-0">
+          <button
+            onClick={(e) => {
+              const rect = e.currentTarget.getBoundingClientRect()
+              setHeaderMenu({ x: rect.left + rect.width / 2 - 80, y: rect.bottom + 4 })
+            }}
+            className="px-2 rounded-xl active:bg-gray-100 dark:active:bg-gray-800"
+            aria-label="Session menu"
+          >
+            <h1 className="font-semibold text-[15px] text-gray-900 dark:text-white truncate max-w-[200px]">
+              {displayName}
+            </h1>
+          </button>
+          <button
+            onClick={() => setShowModelPicker(true)}
+            className="flex items-center gap-1 mt-0.5 px-1.5 rounded-md text-[11px] text-gray-400 dark:text-gray-500 active:bg-gray-100 dark:active:bg-gray-800"
+            aria-label="Choose model"
+          >
             <ConnectionDot />
-          </div>
+            <span className="truncate max-w-[160px]">{modelSummary}</span>
+            <svg className="w-2.5 h-2.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
+            </svg>
+          </button>
         </div>
 
         <button
@@ -354,6 +743,23 @@ export default function ChatScreen() {
         </button>
       </header>
 
+      {showModelPicker && (
+        <ModelPicker sessionKey={currentSessionKey} onClose={() => setShowModelPicker(false)} />
+      )}
+
+      {showInstructions && (
+        <InstructionsEditor sessionKey={currentSessionKey} onClose={() => setShowInstructions(false)} />
+      )}
+
+      {headerMenu && (
+        <ContextMenu
+          items={sessionMenuItems}
+          x={headerMenu.x}
+          y={headerMenu.y}
+          onClose={() => setHeaderMenu(null)}
+        />
+      )}
+
       {/* Connection banner */}
       <ConnectionBanner />
 
@@ -376,15 +782,27 @@ export default function ChatScreen() {
           </div>
         )}
 
+        {(isLoadingOlder || hasOlder) && currentMessages.length > 0 && (
+          <div className="flex items-center justify-center gap-2 py-2 text-[12px] text-gray-400 dark:text-gray-500">
+            {isLoadingOlder && (
+              <svg className="w-3 h-3 animate-spin" viewBox="0 0 24 24" fill="none">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+              </svg>
+            )}
+            <span>{isLoadingOlder ? '正在加载更早的消息...' : '上滑加载更早的消息'}</span>
+          </div>
+        )}
+
         {currentMessages.map((msg, i) => {
-          const isNew = i >= prevMessageCountRef.current
+          const isNew = i > prevLastIdx
           const isLastAssistant = i === lastAssistantIdx
           const prevRole = i > 0 ? currentMessages[i - 1].role : null
           const isGrouped = prevRole === msg.role
           const prevTimestamp = i > 0 ? currentMessages[i - 1].timestamp : undefined
           const showDateSep = i === 0 || isDifferentDay(prevTimestamp, msg.timestamp)
           return (
-            <div key={`${currentSessionKey}-${i}`}>
+            <div key={msg.id} data-message-id={msg.id}>
               {showDateSep && msg.timestamp && (
                 <div className="flex items-center justify-center py-3">
                   <span className="text-[12px] text-gray-400 dark:text-gray-500 bg-gray-100 dark:bg-gray-800 px-3 py-0.5 rounded-full">
@@ -392,16 +810,21 @@ export default function ChatScreen() {
                   </span>
                 </div>
               )}
-              <div className={isGrouped && !showDateSep ? '-mt-1' : ''}>
+              <div className={`${isGrouped && !showDateSep ? '-mt-1' : ''} ${flashId === msg.id ? 'animate-flash' : ''}`}>
                 <MessageBubble
                   role={msg.role}
                   content={msg.content}
                   timestamp={msg.timestamp}
-                  index={i}
+                  messageId={msg.id}
                   sessionKey={currentSessionKey}
                   animate={isNew}
                   showRetry={isLastAssistant && !generating}
                   onRetry={retryLastMessage}
+                  interrupted={msg.interrupted}
+                  status={msg.status}
+                  onRetrySend={() => retryMessage(msg.id)}
+                  onEdit={msg.role === 'user' && !generating ? (text) => editMessage(msg.id, text) : undefined}
+                  variant={variantOf(msg.id)}
                 />
               </div>
             </div>
@@ -413,7 +836,6 @@ export default function ChatScreen() {
             role="assistant"
             content={currentStreaming.content}
             isStreaming
-            index={-1}
             sessionKey={currentSessionKey}
           />
         )}
@@ -458,6 +880,20 @@ export default function ChatScreen() {
         className="flex flex-col border-t border-gray-100 dark:border-gray-800 bg-white dark:bg-[#1a1410] flex-shrink-0"
         style={{ paddingBottom: 'var(--kb-height, 0px)' }}
       >
+        {/* Session instructions */}
+        {currentSession?.instructions && (
+          <div className="flex items-center gap-2 px-3 pt-2 pb-0">
+            <button
+              type="button"
+              onClick={() => setShowInstructions(true)}
+              className="flex items-center gap-1.5 max-w-full px-2.5 py-1 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 active:bg-gray-200 dark:active:bg-gray-700"
+            >
+              <span className="text-sm">🎭</span>
+              <span className="text-[12px] truncate">{currentSession.instructions.split('\n')[0]}</span>
+            </button>
+          </div>
+        )}
+
         {/* Active action indicator */}
         {activeAction && (
           <div className="flex items-center gap-2 px-3 pt-2 pb-0">
@@ -474,8 +910,30 @@ export default function ChatScreen() {
                 </svg>
               </button>
             </div>
+            {activeAction.inputMode === 'url' && input.trim() && (
+              linkInput ? (
+                <span className="flex items-center gap-1 min-w-0 text-[12px] text-gray-500 dark:text-gray-400">
+                  <span>🔗</span>
+                  <span className="truncate">{new URL(linkInput.link).hostname}</span>
+                </span>
+              ) : (
+                <span className="text-[12px] text-red-500">没有找到有效的链接</span>
+              )
+            )}
           </div>
         )}
+        {showPalette && (
+          <CommandPalette
+            commands={paletteCommands}
+            selected={paletteIndex}
+            connected={connectionState === 'connected'}
+            onPick={pickCommand}
+          />
+        )}
+        {typedCommand && <CommandHint command={typedCommand.command} />}
+        {activeFields.length > 0 && (
+          <ActionForm fields={activeFields} values={fieldValues} errors={fieldErrors} onChange={handleFieldChange} />
+        )}
 
         {/* Pending image preview */}
         {pendingImage && (
@@ -498,6 +956,39 @@ export default function ChatScreen() {
           </div>
         )}
 
+        {/* Pending file */}
+        {pendingFile && (
+          <div className="flex items-center gap-2 px-3 pt-2 pb-0">
+            <div className="flex items-center gap-1.5 min-w-0 pl-2.5 pr-1.5 py-1.5 rounded-lg bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+              <span className="text-sm">📄</span>
+              <span className="text-[12px] text-gray-700 dark:text-gray-300 truncate max-w-[200px]">{pendingFile.name}</span>
+              <button
+                type="button"
+                onClick={() => setPendingFile(null)}
+                className="w-5 h-5 flex items-center justify-center rounded-full text-gray-400 text-xs"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Browser fallback for the native pickers */}
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            e.target.value = ''
+            if (!file) return
+            const reader = new FileReader()
+            reader.onload = () => handleFileDataUrl(reader.result as string, file.name)
+            reader.onerror = () => import('./Toast').then(m => m.showToast('读取文件失败', 'error'))
+            reader.readAsDataURL(file)
+          }}
+        />
+
         <div className="flex items-end gap-2 px-3 py-2.5">
           {/* Attachment button */}
           <button
@@ -541,11 +1032,11 @@ export default function ChatScreen() {
             </button>
           ) : (
             <>
-              <VoiceButton onResult={(text) => {
+              <VoiceButton ref={voiceRef} onResult={(text) => {
                 setInput((prev) => prev ? prev + text : text)
                 haptic('medium')
               }} />
-              {(input.trim() || pendingImage) && (
+              {(input.trim() || pendingImage || pendingFile || activeFields.length > 0) && (
                 <button
                   type="submit"
                   onMouseDown={(e) => e.preventDefault()}
@@ -0,0 +1,57 @@
+import type { SlashCommand } from '../lib/commands'
+
+interface CommandPaletteProps {
+  commands: SlashCommand[]
+  selected: number
+  connected: boolean
+  onPick: (command: SlashCommand) => void
+}
+
+function CommandLabel({ command }: { command: SlashCommand }) {
+  return (
+    <span className="font-mono text-[13px] text-gray-900 dark:text-gray-100 flex-shrink-0">
+      /{command.name}
+      {command.args && <span className="ml-1.5 text-gray-400 dark:text-gray-500">{command.args}</span>}
+    </span>
+  )
+}
+
+/** Commands matching what's typed after `/` — ↑↓ to choose, Enter to run, Tab to add an argument */
+export default function CommandPalette({ commands, selected, connected, onPick }: CommandPaletteProps) {
+  if (commands.length === 0) {
+    return <p className="mx-3 mt-2 px-3 py-2 text-[12px] text-gray-400 dark:text-gray-500">没有匹配的命令，发送后交给网关处理</p>
+  }
+  return (
+    <div className="mx-3 mt-2 py-1 max-h-56 overflow-y-auto rounded-2xl bg-white dark:bg-[#231c14] border border-gray-100 dark:border-gray-800 shadow-lg animate-fade-in">
+      {commands.map((command, i) => {
+        const offline = command.gateway && !connected
+        return (
+          <button
+            key={command.name}
+            type="button"
+            // Keep the keyboard up: the textarea must not lose focus
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onPick(command)}
+            className={`w-full flex items-center gap-3 px-3 py-2 text-left ${
+              i === selected ? 'bg-gray-100 dark:bg-gray-800' : 'active:bg-gray-50 dark:active:bg-gray-800'
+            } ${offline ? 'opacity-40' : ''}`}
+          >
+            <CommandLabel command={command} />
+            <span className="flex-1 min-w-0 text-[12px] text-gray-500 dark:text-gray-400 truncate">{command.description}</span>
+            {offline && <span className="text-[11px] text-gray-400 flex-shrink-0">需连接</span>}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+/** Usage line while the argument is being typed */
+export function CommandHint({ command }: { command: SlashCommand }) {
+  return (
+    <div className="mx-3 mt-2 flex items-center gap-3 px-3 py-1.5 text-[12px] text-gray-500 dark:text-gray-400">
+      <CommandLabel command={command} />
+      <span className="truncate">{command.description}</span>
+    </div>
+  )
+}
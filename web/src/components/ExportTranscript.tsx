@@ -0,0 +1,69 @@
+import { MarkdownBody } from './MessageBubble'
+import type { ExportedSession } from '../lib/exporter'
+import { isDifferentDay } from '../lib/dateSeparator'
+
+// Absolute dates — "今天" would be stale by the time the file is opened
+function formatDay(ts: number): string {
+  const d = new Date(ts)
+  return `${d.getFullYear()}年${d.getMonth() + 1}月${d.getDate()}日`
+}
+
+function formatTime(ts: number): string {
+  const d = new Date(ts)
+  return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`
+}
+
+/** Static transcript for the HTML export — same bubble classes as ChatScreen */
+export default function ExportTranscript({ sessions }: { sessions: ExportedSession[] }) {
+  return (
+    <main className="max-w-2xl mx-auto px-4 py-6 space-y-10">
+      {sessions.map((session) => (
+        <section key={session.key} className="space-y-3">
+          <h1 className="text-[17px] font-semibold text-gray-900 dark:text-white pb-2 border-b border-gray-100 dark:border-gray-800">
+            {session.label?.trim() || session.key}
+          </h1>
+          {session.messages.map((msg, i) => {
+            const isUser = msg.role === 'user'
+            const prev = session.messages[i - 1]
+            const showDateSep = msg.timestamp && (i === 0 || isDifferentDay(prev?.timestamp, msg.timestamp))
+            const text = msg.content
+              .filter((c) => c.type === 'text' && c.text)
+              .map((c) => c.text)
+              .join('\n')
+            const images = msg.content.filter((c) => c.type === 'image' && c.url)
+            return (
+              <div key={msg.id}>
+                {showDateSep && (
+                  <div className="flex items-center justify-center py-3">
+                    <span className="text-[12px] text-gray-400 dark:text-gray-500 bg-gray-100 dark:bg-gray-800 px-3 py-0.5 rounded-full">
+                      {formatDay(msg.timestamp!)}
+                    </span>
+                  </div>
+                )}
+                <div className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
+                  <div className="flex flex-col max-w-[92%]">
+                    <div className={`message-bubble ${isUser ? 'message-bubble-user' : 'message-bubble-assistant'}`}>
+                      {images.map((img, j) => (
+                        <img key={j} src={img.url} alt="图片" className="max-w-full rounded-lg mb-2" />
+                      ))}
+                      {text && (
+                        <div className="prose-chat">
+                          <MarkdownBody text={text} allowHtml={false} />
+                        </div>
+                      )}
+                    </div>
+                    {msg.timestamp && (
+                      <span className={`text-[11px] text-gray-400 dark:text-gray-500 mt-1 ${isUser ? 'text-right pr-1' : 'pl-1'}`}>
+                        {formatTime(msg.timestamp)}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )
+          })}
+        </section>
+      ))}
+    </main>
+  )
+}
@@ -1,11 +1,17 @@
 import { useState, useCallback, useRef } from 'react'
+import { useImageSrc } from './AttachmentImage'
+import type { MessageContent } from '../lib/gateway'
 
 interface ImageLightboxProps {
-  src: string
+  image: MessageContent
   onClose: () => void
 }
 
-export default function ImageLightbox({ src, onClose }: ImageLightboxProps) {
+export default function ImageLightbox({ image, onClose }: ImageLightboxProps) {
+  // The bubble already shows the thumbnail — keep it up until the full image is ready
+  const full = useImageSrc(image, 'full')
+  const thumb = useImageSrc(image, 'thumb')
+  const src = full ?? thumb
   const [scale, setScale] = useState(1)
   const [translate, setTranslate] = useState({ x: 0, y: 0 })
   const lastPinchDist = useRef<number | null>(null)
@@ -80,21 +86,23 @@ export default function ImageLightbox({ src, onClose }: ImageLightboxProps) {
       </button>
 
       {/* Image */}
-      <img
-        ref={imgRef}
-        src={src}
-        alt="预览"
-        className="max-w-full max-h-full object-contain select-none"
-        style={{
-          transform: `translate(${translate.x}px, ${translate.y}px) scale(${scale})`,
-          transition: lastPinchDist.current !== null ? 'none' : 'transform 200ms ease-out',
-        }}
-        onClick={handleClick}
-        onTouchStart={handleTouchStart}
-        onTouchMove={handleTouchMove}
-        onTouchEnd={handleTouchEnd}
-        draggable={false}
-      />
+      {src && (
+        <img
+          ref={imgRef}
+          src={src}
+          alt="预览"
+          className="max-w-full max-h-full object-contain select-none"
+          style={{
+            transform: `translate(${translate.x}px, ${translate.y}px) scale(${scale})`,
+            transition: lastPinchDist.current !== null ? 'none' : 'transform 200ms ease-out',
+          }}
+          onClick={handleClick}
+          onTouchStart={handleTouchStart}
+          onTouchMove={handleTouchMove}
+          onTouchEnd={handleTouchEnd}
+          draggable={false}
+        />
+      )}
 
       {/* Zoom hint */}
       {scale === 1 && (
@@ -0,0 +1,216 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useStore } from '../store'
+import { parseExportFile, planImport, withChoice, type CollisionChoice, type ImportItem } from '../lib/importer'
+import { formatRelativeTime } from '../lib/formatTime'
+import { base64ToText } from '../lib/dataUrl'
+
+const choiceOptions: Array<{ value: CollisionChoice; label: string }> = [
+  { value: 'rename', label: '另存副本' },
+  { value: 'overwrite', label: '覆盖' },
+  { value: 'skip', label: '跳过' },
+]
+
+export default function ImportDialog() {
+  const { sessions, messages, sessionMeta, connectionState, setShowImport, importConversations } = useStore()
+  const [items, setItems] = useState<ImportItem[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [replay, setReplay] = useState(true)
+  const [importing, setImporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Everything already on this device — sessions plus cached-only transcripts
+  const existingKeys = useMemo(
+    () => new Set([...sessions.map((s) => s.key), ...Object.keys(messages).filter((k) => messages[k].length > 0)]),
+    [sessions, messages],
+  )
+  // Sessions the gateway doesn't have (unreplayed imports) — the only ones an import may replace
+  const localOnlyKeys = useMemo(
+    () => new Set([...existingKeys].filter((k) => sessionMeta[k]?.label !== undefined)),
+    [existingKeys, sessionMeta],
+  )
+
+  const handleText = (text: string) => {
+    const result = parseExportFile(text)
+    if (!result.ok) {
+      setError(result.error)
+      setItems(null)
+      return
+    }
+    if (result.value.sessions.length === 0) {
+      setError('文件里没有对话')
+      setItems(null)
+      return
+    }
+    setError(null)
+    setItems(planImport(result.value, existingKeys, localOnlyKeys))
+  }
+
+  useEffect(() => {
+    (window as unknown as Record<string, unknown>).__lilclaw_onDocumentPicked = (base64: string | null, error?: string) => {
+      if (base64 === null) {
+        setError(error ?? '读取文件失败')
+        setItems(null)
+        return
+      }
+      try {
+        handleText(base64ToText(base64))
+      } catch {
+        setError('读取文件失败')
+      }
+    }
+    return () => {
+      delete (window as unknown as Record<string, unknown>).__lilclaw_onDocumentPicked
+    }
+  })
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !importing) setShowImport(false)
+    }
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [setShowImport, importing])
+
+  const pickFile = () => {
+    // The Android WebView has no file chooser — the bridge opens the system picker
+    const bridge = window.LilClaw as unknown as { pickDocument?: (mimeType: string) => void } | undefined
+    if (bridge?.pickDocument) {
+      bridge.pickDocument('*/*')
+    } else {
+      fileInputRef.current?.click()
+    }
+  }
+
+  const accepted = items?.filter((it) => it.choice !== 'skip').length ?? 0
+
+  const handleImport = async () => {
+    if (!items || accepted === 0) return
+    setImporting(true)
+    await importConversations(items, replay)
+    setShowImport(false)
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-white dark:bg-[#1a1410] animate-fade-in">
+      <div className="flex items-center gap-2 px-3 py-2.5 border-b border-gray-100 dark:border-gray-800 safe-top">
+        <button
+          onClick={() => setShowImport(false)}
+          disabled={importing}
+          className="flex items-center justify-center p-2 -ml-1 rounded-xl active:bg-gray-100 dark:active:bg-gray-800"
+          aria-label="Back"
+        >
+          <svg className="w-5 h-5 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <h2 className="text-[16px] font-semibold text-gray-900 dark:text-white">导入对话</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            e.target.value = ''
+            if (!file) return
+            file.text().then(handleText, () => setError('读取文件失败'))
+          }}
+        />
+
+        <button
+          onClick={pickFile}
+          disabled={importing}
+          className="w-full py-3 px-4 rounded-xl bg-gray-100 dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-300 active:bg-gray-200 dark:active:bg-gray-700 transition-colors"
+        >
+          {items ? '重新选择文件' : '选择导出的 JSON 文件'}
+        </button>
+
+        {!items && !error && (
+          <p className="text-[13px] text-gray-400 dark:text-gray-500 text-center">
+            在「设置 → 导出全部对话 → JSON」生成的文件可以在这里导入
+          </p>
+        )}
+
+        {error && (
+          <div className="rounded-xl bg-red-50 dark:bg-red-900/10 px-3 py-2.5 text-[13px] text-red-500 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        {items && (
+          <>
+            <div className="rounded-xl border border-gray-100 dark:border-gray-800 divide-y divide-gray-100 dark:divide-gray-800">
+              {items.map((it, i) => {
+                const last = it.session.messages[it.session.messages.length - 1]?.timestamp
+                return (
+                  <div key={it.session.key} className={`px-3 py-2.5 ${it.choice === 'skip' ? 'opacity-50' : ''}`}>
+                    <div className="flex items-center gap-2">
+                      <span className="flex-1 text-[14px] font-medium text-gray-900 dark:text-white truncate">
+                        {it.session.label?.trim() || it.session.key}
+                      </span>
+                      <span className="text-[12px] text-gray-400 dark:text-gray-500 flex-shrink-0">
+                        {it.session.messages.length} 条{last ? ` · ${formatRelativeTime(last)}` : ''}
+                      </span>
+                    </div>
+                    {it.collides && (
+                      <div className="mt-2">
+                        <p className="text-[12px] text-amber-700 dark:text-amber-500 mb-1.5">本机已有同一对话</p>
+                        <div className="flex gap-1.5">
+                          {choiceOptions.filter((opt) => opt.value !== 'overwrite' || it.replaceable).map((opt) => (
+                            <button
+                              key={opt.value}
+                              onClick={() => setItems(withChoice(items, i, opt.value))}
+                              className={`flex-1 py-1.5 rounded-lg text-[12px] font-medium transition-all ${
+                                it.choice === opt.value
+                                  ? 'bg-gray-900 dark:bg-white text-white dark:text-gray-900'
+                                  : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 active:bg-gray-200 dark:active:bg-gray-700'
+                              }`}
+                            >
+                              {opt.label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+
+            <label className="flex items-start gap-3 px-1">
+              <input
+                type="checkbox"
+                checked={replay}
+                onChange={(e) => setReplay(e.target.checked)}
+                className="mt-0.5 w-4 h-4 accent-amber-700 dark:accent-amber-500"
+              />
+              <span>
+                <span className="block text-[14px] text-gray-700 dark:text-gray-300">同步上下文到网关</span>
+                <span className="block text-[12px] text-gray-400 dark:text-gray-500">
+                  {connectionState === 'connected'
+                    ? '继续聊天时，助手会记得导入的内容'
+                    : '当前未连接，只会保存在本机'}
+                </span>
+              </span>
+            </label>
+          </>
+        )}
+      </div>
+
+      {items && (
+        <div className="px-4 py-3 border-t border-gray-100 dark:border-gray-800 safe-bottom">
+          <button
+            onClick={handleImport}
+            disabled={accepted === 0 || importing}
+            className="w-full py-3 rounded-xl text-sm font-medium bg-amber-700 dark:bg-amber-600 text-white disabled:opacity-40 active:bg-amber-800 transition-colors"
+          >
+            {importing ? '正在导入...' : `导入 ${accepted} 个对话`}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+import { useState } from 'react'
+import { useStore } from '../store'
+
+// Keeps the system prompt from crowding out the conversation
+const MAX_INSTRUCTIONS_LENGTH = 2000
+
+const EXAMPLES = [
+  '用简单的中文回答，步骤要大而清楚',
+  '回答尽量简短，先给结论',
+  '你是耐心的英语老师，指出我的语法错误',
+]
+
+/** Edit the instructions the agent follows in one session, on top of its persona */
+export default function InstructionsEditor({ sessionKey, onClose }: { sessionKey: string; onClose: () => void }) {
+  const { sessions, connectionState, setSessionInstructions, getSessionDisplayName } = useStore()
+  const current = sessions.find((s) => s.key === sessionKey)?.instructions ?? ''
+  const [text, setText] = useState(current)
+  const [saving, setSaving] = useState(false)
+  const connected = connectionState === 'connected'
+
+  const save = async (value: string) => {
+    setSaving(true)
+    const ok = await setSessionInstructions(sessionKey, value)
+    setSaving(false)
+    if (ok) onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <div className="relative w-full max-w-sm bg-white dark:bg-[#1e1812] rounded-2xl shadow-2xl overflow-hidden animate-fade-in">
+        <div className="px-5 pt-5 pb-3">
+          <h3 className="text-[17px] font-semibold text-gray-900 dark:text-white text-center">
+            对话指令
+          </h3>
+          <p className="text-[12px] text-gray-400 dark:text-gray-500 text-center truncate mt-0.5">
+            只对「{getSessionDisplayName(sessionKey)}」生效
+          </p>
+        </div>
+
+        <div className="px-5 space-y-2">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value.slice(0, MAX_INSTRUCTIONS_LENGTH))}
+            rows={5}
+            autoFocus
+            placeholder="例如：用简单的中文回答，步骤要大而清楚"
+            className="w-full px-3 py-2 text-[14px] leading-relaxed rounded-xl bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500 resize-none focus:outline-none focus:ring-1 focus:ring-amber-700/40"
+          />
+          {!text.trim() && (
+            <div className="flex flex-wrap gap-1.5">
+              {EXAMPLES.map((example) => (
+                <button
+                  key={example}
+                  onClick={() => setText(example)}
+                  className="px-2.5 py-1 rounded-full text-[12px] bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 active:bg-gray-200 dark:active:bg-gray-700"
+                >
+                  {example}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center justify-between pb-3 text-[11px] text-gray-400 dark:text-gray-500">
+            <span>{connected ? '保存在网关，换设备也生效' : '连接后才能保存'}</span>
+            <span>{text.length}/{MAX_INSTRUCTIONS_LENGTH}</span>
+          </div>
+        </div>
+
+        <div className="flex border-t border-gray-100 dark:border-gray-700">
+          {current ? (
+            <button
+              onClick={() => save('')}
+              disabled={saving || !connected}
+              className="flex-1 py-3.5 text-[15px] font-medium text-red-500 active:bg-red-50 dark:active:bg-red-500/10 border-r border-gray-100 dark:border-gray-700 disabled:opacity-40 transition-colors"
+            >
+              清除
+            </button>
+          ) : (
+            <button
+              onClick={onClose}
+              className="flex-1 py-3.5 text-[15px] font-medium text-gray-500 dark:text-gray-400 active:bg-gray-50 dark:active:bg-gray-800 border-r border-gray-100 dark:border-gray-700 transition-colors"
+            >
+              取消
+            </button>
+          )}
+          <button
+            onClick={() => save(text)}
+            disabled={saving || !connected || text.trim() === current}
+            className="flex-1 py-3.5 text-[15px] font-semibold text-amber-700 dark:text-amber-500 active:bg-amber-50 dark:active:bg-amber-500/10 disabled:opacity-40 transition-colors"
+          >
+            {saving ? '保存中...' : '保存'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -3,11 +3,12 @@ import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import rehypeHighlight from 'rehype-highlight'
 import rehypeRaw from 'rehype-raw'
-import type { MessageContent } from '../lib/gateway'
+import type { ChatMessage, MessageContent } from '../lib/gateway'
 import { formatRelativeTime } from '../lib/formatTime'
 import { useStore } from '../store'
 import ContextMenu, { type ContextMenuItem } from './ContextMenu'
 import ImageLightbox from './ImageLightbox'
+import AttachmentImage from './AttachmentImage'
 import { showToast } from './Toast'
 import { haptic } from '../lib/haptic'
 
@@ -16,11 +17,71 @@ interface MessageBubbleProps {
   content: MessageContent[]
   timestamp?: number
   isStreaming?: boolean
-  index: number
+  /** Absent for the in-flight streaming bubble */
+  messageId?: string
   sessionKey: string
   animate?: boolean
   showRetry?: boolean
   onRetry?: () => void
+  interrupted?: boolean
+  /** Outbox delivery state for user messages the gateway hasn't acked */
+  status?: ChatMessage['status']
+  onRetrySend?: () => void
+  /** User messages: resubmit with new text, parking the later turns as a branch */
+  onEdit?: (text: string) => void
+  /** Set on the first message after a fork: which alternate tail is showing */
+  variant?: { index: number; count: number; onSwitch: (index: number) => void }
+}
+
+function EditBox({ initial, onCancel, onSubmit }: { initial: string; onCancel: () => void; onSubmit: (text: string) => void }) {
+  const [draft, setDraft] = useState(initial)
+  const ref = useRef<HTMLTextAreaElement>(null)
+
+  useEffect(() => {
+    const el = ref.current
+    if (!el) return
+    el.focus()
+    el.setSelectionRange(el.value.length, el.value.length)
+    el.style.height = 'auto'
+    el.style.height = `${Math.min(el.scrollHeight, 240)}px`
+  }, [])
+
+  const submit = () => {
+    if (!draft.trim()) return
+    onSubmit(draft)
+  }
+
+  return (
+    <div className="flex flex-col gap-2 w-full" onClick={(e) => e.stopPropagation()}>
+      <textarea
+        ref={ref}
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value)
+          e.target.style.height = 'auto'
+          e.target.style.height = `${Math.min(e.target.scrollHeight, 240)}px`
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submit() }
+          if (e.key === 'Escape') onCancel()
+        }}
+        className="w-full min-w-[240px] resize-none rounded-lg bg-white/90 dark:bg-gray-900/80 text-gray-900 dark:text-gray-100 px-2.5 py-2 text-[15px] outline-none"
+        rows={1}
+      />
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1 text-[13px] rounded-lg text-gray-600 dark:text-gray-300 active:opacity-70">
+          取消
+        </button>
+        <button
+          onClick={submit}
+          disabled={!draft.trim()}
+          className="px-3 py-1 text-[13px] rounded-lg bg-amber-700 dark:bg-amber-600 text-white font-medium disabled:opacity-40 active:opacity-80"
+        >
+          发送
+        </button>
+      </div>
+    </div>
+  )
 }
 
 function CopyButton({ text }: { text: string }) {
@@ -142,32 +203,71 @@ function CodeBlock({ className, children }: { className?: string; children: Reac
   )
 }
 
+/**
+ * Markdown rendering for a bubble — shared with the HTML export, which passes
+ * `allowHtml={false}`: raw HTML in a reply must not run in a file opened elsewhere
+ */
+export function MarkdownBody({ text, allowHtml = true }: { text: string; allowHtml?: boolean }) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      rehypePlugins={allowHtml ? [rehypeHighlight, rehypeRaw] : [rehypeHighlight]}
+      skipHtml={!allowHtml}
+      components={{
+        code({ className, children, ...props }) {
+          const isInline = !className
+          if (isInline) {
+            return <code {...props}>{children}</code>
+          }
+          return <CodeBlock className={className}>{children}</CodeBlock>
+        },
+        table({ children }) {
+          return (
+            <div className="table-wrapper">
+              <table>{children}</table>
+            </div>
+          )
+        },
+      }}
+    >
+      {text}
+    </ReactMarkdown>
+  )
+}
+
 export default function MessageBubble({
   role,
   content,
   timestamp,
   isStreaming,
-  index,
+  messageId,
   sessionKey,
   animate,
   showRetry,
   onRetry,
+  interrupted,
+  status,
+  onRetrySend,
+  onEdit,
+  variant,
 }: MessageBubbleProps) {
   const isUser = role === 'user'
   const [showTimestamp, setShowTimestamp] = useState(false)
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number } | null>(null)
   const [expanded, setExpanded] = useState(false)
   const [copied, setCopied] = useState(false)
-  const [lightboxSrc, setLightboxSrc] = useState<string | null>(null)
+  const [lightboxImage, setLightboxImage] = useState<MessageContent | null>(null)
+  const [editing, setEditing] = useState(false)
   const bubbleRef = useRef<HTMLDivElement>(null)
   const deleteMessage = useStore((s) => s.deleteMessage)
+  const forkSession = useStore((s) => s.forkSession)
 
   const textContent = content
     .filter((c) => c.type === 'text' && c.text)
     .map((c) => c.text)
     .join('\n')
 
-  const images = content.filter((c) => c.type === 'image' && c.url)
+  const images = content.filter((c) => c.type === 'image' && (c.url || c.attachmentId))
 
   // Long-press context menu removed (Option A):
   // Let native text selection handle long-press. Copy/Retry/Delete
@@ -195,6 +295,13 @@ export default function MessageBubble({
         onClick: () => navigator.clipboard.writeText(textContent),
       },
     ]
+    if (isUser && onEdit) {
+      items.push({
+        label: '编辑',
+        icon: '✏️',
+        onClick: () => setEditing(true),
+      })
+    }
     if (!isUser && showRetry && onRetry) {
       items.push({
         label: '重试',
@@ -202,16 +309,21 @@ export default function MessageBubble({
         onClick: onRetry,
       })
     }
-    if (index >= 0) {
+    if (messageId) {
+      items.push({
+        label: '从这里分支',
+        icon: '⑂',
+        onClick: () => forkSession(messageId),
+      })
       items.push({
         label: '删除',
         icon: '🗑',
-        onClick: () => deleteMessage(sessionKey, index),
+        onClick: () => deleteMessage(sessionKey, messageId),
         danger: true,
       })
     }
     return items
-  }, [textContent, isUser, showRetry, onRetry, index, sessionKey, deleteMessage])
+  }, [textContent, isUser, onEdit, showRetry, onRetry, messageId, sessionKey, deleteMessage, forkSession])
 
   return (
     <>
@@ -225,39 +337,26 @@ export default function MessageBubble({
             onClick={handleTap}
             onContextMenu={handleContextMenu}
           >
+            {editing && onEdit ? (
+              <EditBox
+                initial={textContent}
+                onCancel={() => setEditing(false)}
+                onSubmit={(text) => { setEditing(false); onEdit(text) }}
+              />
+            ) : (<>
             {images.map((img, i) => (
-              <img
-                key={i}
-                src={img.url}
+              <AttachmentImage
+                key={img.attachmentId ?? i}
+                image={img}
+                variant="thumb"
                 alt="Content"
                 className="max-w-full rounded-lg mb-2 cursor-pointer active:opacity-80 transition-opacity"
-                onClick={(e) => { e.stopPropagation(); setLightboxSrc(img.url!) }}
+                onClick={(e) => { e.stopPropagation(); setLightboxImage(img) }}
               />
             ))}
 
             <div className={`prose-chat ${isStreaming ? 'cursor-blink' : ''} ${!isUser && !expanded && textContent.length > 500 ? 'max-h-[200px] overflow-hidden relative' : ''}`}>
-              <ReactMarkdown
-                remarkPlugins={[remarkGfm]}
-                rehypePlugins={[rehypeHighlight, rehypeRaw]}
-                components={{
-                  code({ className, children, ...props }) {
-                    const isInline = !className
-                    if (isInline) {
-                      return <code {...props}>{children}</code>
-                    }
-                    return <CodeBlock className={className}>{children}</CodeBlock>
-                  },
-                  table({ children }) {
-                    return (
-                      <div className="table-wrapper">
-                        <table>{children}</table>
-                      </div>
-                    )
-                  },
-                }}
-              >
-                {textContent}
-              </ReactMarkdown>
+              <MarkdownBody text={textContent} />
               {!isUser && !expanded && textContent.length > 500 && (
                 <div className="absolute bottom-0 left-0 right-0 h-16 pointer-events-none" style={{ background: `linear-gradient(transparent, var(--bubble-bg))` }} />
               )}
@@ -280,15 +379,68 @@ export default function MessageBubble({
                 收起 ▲
               </button>
             )}
+            </>)}
           </div>
 
           {/* Action row: timestamp + copy + retry for assistant */}
           <div className={`flex items-center gap-3 mt-1 ${isUser ? 'justify-end pr-1' : 'pl-1'}`}>
+            {variant && variant.count > 1 && (
+              <span className="flex items-center gap-1 text-[12px] text-gray-400 dark:text-gray-500">
+                <button
+                  onClick={(e) => { e.stopPropagation(); haptic('selection'); variant.onSwitch(variant.index - 1) }}
+                  disabled={variant.index === 0}
+                  className="px-1 disabled:opacity-30 active:text-amber-700 dark:active:text-amber-500"
+                  aria-label="上一个版本"
+                >
+                  ‹
+                </button>
+                <span className="tabular-nums">{variant.index + 1}/{variant.count}</span>
+                <button
+                  onClick={(e) => { e.stopPropagation(); haptic('selection'); variant.onSwitch(variant.index + 1) }}
+                  disabled={variant.index === variant.count - 1}
+                  className="px-1 disabled:opacity-30 active:text-amber-700 dark:active:text-amber-500"
+                  aria-label="下一个版本"
+                >
+                  ›
+                </button>
+              </span>
+            )}
+            {interrupted && (
+              <span className="text-[11px] text-amber-600 dark:text-amber-500">回复未完成</span>
+            )}
+            {status === 'queued' && (
+              <span className="text-[11px] text-gray-400 dark:text-gray-500">等待发送</span>
+            )}
+            {status === 'sending' && (
+              <span className="flex items-center gap-1 text-[11px] text-gray-400 dark:text-gray-500">
+                <svg className="w-3 h-3 animate-spin" viewBox="0 0 24 24" fill="none">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                </svg>
+                发送中
+              </span>
+            )}
+            {status === 'failed' && (
+              <button
+                onClick={(e) => { e.stopPropagation(); haptic('light'); onRetrySend?.() }}
+                className="text-[11px] text-red-500 dark:text-red-400 active:opacity-70"
+              >
+                发送失败 · 点击重试
+              </button>
+            )}
             {showTimestamp && timestamp && (
               <span className="text-[11px] text-gray-400 dark:text-gray-500">
                 {formatRelativeTime(timestamp)}
               </span>
             )}
+            {isUser && showTimestamp && onEdit && !editing && (
+              <button
+                onClick={(e) => { e.stopPropagation(); setEditing(true) }}
+                className="text-[12px] text-gray-400 dark:text-gray-500 active:text-amber-700 dark:active:text-amber-500 transition-colors"
+              >
+                ✏️ 编辑
+              </button>
+            )}
             {!isUser && !isStreaming && textContent.length > 0 && (
               <button
                 onClick={(e) => {
@@ -331,8 +483,8 @@ export default function MessageBubble({
       )}
 
       {/* Image lightbox */}
-      {lightboxSrc && (
-        <ImageLightbox src={lightboxSrc} onClose={() => setLightboxSrc(null)} />
+      {lightboxImage && (
+        <ImageLightbox image={lightboxImage} onClose={() => setLightboxImage(null)} />
       )}
     </>
   )
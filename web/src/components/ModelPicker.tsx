@@ -0,0 +1,102 @@
+import { useEffect } from 'react'
+import { useStore } from '../store'
+import { THINKING_LEVELS, type ThinkingLevel } from '../lib/protocol'
+import { THINKING_LABELS, modelRef, sessionModelRef, sessionThinkingLevel } from '../lib/models'
+
+/** Header sheet: which model answers in this session, and how hard it thinks */
+export default function ModelPicker({ sessionKey, onClose }: { sessionKey: string; onClose: () => void }) {
+  const { sessions, models, connectionState, loadModels, setSessionModel } = useStore()
+  const session = sessions.find((s) => s.key === sessionKey)
+  const currentRef = sessionModelRef(session)
+  const currentLevel = sessionThinkingLevel(session)
+  const current = models.find((m) => modelRef(m) === currentRef)
+  // Unknown models (or the default) may still reason — only grey out what we know can't
+  const canThink = current?.reasoning !== false
+
+  // The list may have changed since connect (models added in the setup wizard)
+  useEffect(() => {
+    if (connectionState === 'connected') loadModels()
+  }, [connectionState, loadModels])
+
+  const levelOptions: Array<{ value: ThinkingLevel | null; label: string }> = [
+    { value: null, label: '默认' },
+    ...THINKING_LEVELS.map((level) => ({ value: level, label: THINKING_LABELS[level] })),
+  ]
+
+  const modelRow = (ref: string | null, title: string, subtitle?: string) => {
+    const selected = (currentRef ?? null) === ref
+    return (
+      <button
+        key={ref ?? 'default'}
+        onClick={() => { if (!selected) setSessionModel(sessionKey, { model: ref }) }}
+        className="w-full flex items-center gap-3 px-2 py-2.5 rounded-lg text-left active:bg-gray-50 dark:active:bg-gray-800"
+      >
+        <div className="flex-1 min-w-0">
+          <div className="text-[14px] text-gray-800 dark:text-gray-200 truncate">{title}</div>
+          {subtitle && <div className="text-[11px] text-gray-400 dark:text-gray-500 truncate">{subtitle}</div>}
+        </div>
+        {selected && (
+          <svg className="w-4 h-4 text-amber-700 dark:text-amber-500 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 12.75l6 6 9-13.5" />
+          </svg>
+        )}
+      </button>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <div className="relative w-full max-w-xs bg-white dark:bg-[#1e1812] rounded-2xl shadow-2xl overflow-hidden animate-fade-in">
+        <h3 className="px-5 pt-5 pb-2 text-[17px] font-semibold text-gray-900 dark:text-white text-center">
+          模型
+        </h3>
+
+        <div className="max-h-72 overflow-y-auto px-3">
+          {modelRow(null, '默认模型', '使用设置向导中配置的模型')}
+          {models.map((m) => modelRow(
+            modelRef(m),
+            m.name ?? m.id,
+            [m.provider, m.reasoning && '支持思考'].filter(Boolean).join(' · ') || undefined,
+          ))}
+          {/* An override the gateway no longer lists still shows, so it can be cleared */}
+          {currentRef && !current && modelRow(currentRef, currentRef, '不在模型列表中')}
+          {models.length === 0 && (
+            <p className="px-2 py-2 text-[12px] text-gray-400 dark:text-gray-500">
+              {connectionState === 'connected' ? '网关没有提供可选模型' : '连接后可选择模型'}
+            </p>
+          )}
+        </div>
+
+        <div className="px-5 pt-3 pb-4">
+          <span className="block text-[12px] text-gray-500 dark:text-gray-400 mb-1.5">思考强度</span>
+          <div className={`flex gap-1 ${canThink ? '' : 'opacity-40 pointer-events-none'}`}>
+            {levelOptions.map((opt) => (
+              <button
+                key={opt.value ?? 'default'}
+                onClick={() => setSessionModel(sessionKey, { thinkingLevel: opt.value })}
+                className={`flex-1 py-1.5 rounded-lg text-[12px] font-medium transition-all ${
+                  (currentLevel ?? null) === opt.value
+                    ? 'bg-gray-900 dark:bg-white text-white dark:text-gray-900'
+                    : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 active:bg-gray-200 dark:active:bg-gray-700'
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+          {!canThink && (
+            <p className="mt-1.5 text-[11px] text-gray-400 dark:text-gray-500">当前模型不支持调节思考强度</p>
+          )}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full py-3.5 border-t border-gray-100 dark:border-gray-700 text-[15px] font-semibold text-amber-700 dark:text-amber-500 active:bg-amber-50 dark:active:bg-amber-500/10 transition-colors"
+        >
+          完成
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useStore } from '../store'
+import { buildSearchIndex } from '../lib/searchIndex'
+import type { ChatMessage } from '../lib/gateway'
+import { formatRelativeTime } from '../lib/formatTime'
+
+export default function SearchScreen() {
+  const { setShowSearch, jumpToMessage, loadCachedTranscripts, getSessionDisplayName } = useStore()
+  const [query, setQuery] = useState('')
+  const [debounced, setDebounced] = useState('')
+  const [cached, setCached] = useState<Record<string, ChatMessage[]> | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    loadCachedTranscripts().then((all) => {
+      if (!cancelled) setCached(all)
+    })
+    return () => { cancelled = true }
+  }, [loadCachedTranscripts])
+
+  // Everything in messageDb — memory only holds the newest part of each session
+  const index = useMemo(() => (cached ? buildSearchIndex(cached) : null), [cached])
+
+  useEffect(() => {
+    inputRef.current?.focus()
+  }, [])
+
+  useEffect(() => {
+    const t = setTimeout(() => setDebounced(query), 150)
+    return () => clearTimeout(t)
+  }, [query])
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setShowSearch(false)
+    }
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [setShowSearch])
+
+  const results = useMemo(() => (index ? index.search(debounced) : []), [index, debounced])
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-white dark:bg-[#1a1410] animate-fade-in">
+      <div className="flex items-center gap-2 px-3 py-2.5 border-b border-gray-100 dark:border-gray-800 safe-top">
+        <button
+          onClick={() => setShowSearch(false)}
+          className="flex items-center justify-center p-2 -ml-1 rounded-xl active:bg-gray-100 dark:active:bg-gray-800"
+          aria-label="Back"
+        >
+          <svg className="w-5 h-5 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <input
+          ref={inputRef}
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="搜索所有对话中的消息..."
+          className="flex-1 px-3 py-2 text-[14px] rounded-xl bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-amber-700/40"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {!index && (
+          <div className="py-12 text-center text-[13px] text-gray-400 dark:text-gray-500">正在建立索引...</div>
+        )}
+        {index && !debounced.trim() && (
+          <div className="py-12 text-center text-[13px] text-gray-400 dark:text-gray-500">
+            输入关键词，搜索 {index.size} 条消息
+          </div>
+        )}
+        {index && debounced.trim() && results.length === 0 && (
+          <div className="py-12 text-center text-[13px] text-gray-400 dark:text-gray-500">没有找到相关消息</div>
+        )}
+        {results.map(({ doc, snippet }) => (
+          <button
+            key={`${doc.sessionKey}:${doc.messageId}`}
+            onClick={() => jumpToMessage(doc.sessionKey, doc.messageId)}
+            className="w-full text-left px-4 py-3 border-b border-gray-50 dark:border-gray-800/60 active:bg-gray-100 dark:active:bg-white/[0.08]"
+          >
+            <div className="flex items-center gap-2 mb-0.5">
+              <span className="text-[12px] font-medium text-amber-800 dark:text-amber-500 truncate">
+                {getSessionDisplayName(doc.sessionKey)}
+              </span>
+              <span className="text-[11px] text-gray-400 dark:text-gray-500 flex-shrink-0">
+                {doc.role === 'user' ? '我' : '小爪'}
+              </span>
+              {doc.timestamp && (
+                <span className="ml-auto text-[11px] text-gray-400 dark:text-gray-500 flex-shrink-0">
+                  {formatRelativeTime(doc.timestamp)}
+                </span>
+              )}
+            </div>
+            <div className="text-[13px] leading-relaxed text-gray-700 dark:text-gray-300 line-clamp-2">
+              {snippet.map((part, i) =>
+                part.hit ? (
+                  <mark key={i} className="bg-amber-200/70 dark:bg-amber-500/30 text-inherit rounded-sm px-0.5">
+                    {part.text}
+                  </mark>
+                ) : (
+                  <span key={i}>{part.text}</span>
+                ),
+              )}
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
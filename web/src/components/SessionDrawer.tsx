@@ -1,22 +1,43 @@
-import { useEffect, useRef, useCallback, useState } from 'react'
+import { useEffect, useRef, useCallback, useMemo, useState } from 'react'
 import { useStore } from '../store'
 import { formatRelativeTime } from '../lib/formatTime'
+import { recencyBucket, type RecencyBucket } from '../lib/dateSeparator'
+import { draftPreview, messagePreview } from '../lib/preview'
+import { TAG_CHIP_CLASS, TAG_DOT_CLASS, collectTags, tagColor, type TagColor } from '../lib/sessionTags'
 import ConfirmDialog from './ConfirmDialog'
+import ContextMenu, { type ContextMenuItem } from './ContextMenu'
+import TagEditor from './TagEditor'
 
 function SessionItem({
   session,
   isActive,
   displayName,
+  parentName,
   preview,
+  draft,
+  pinned,
+  tags,
+  unread,
   onSwitch,
   onDelete,
+  onMenu,
 }: {
   session: { key: string; label?: string; lastActivity?: number }
   isActive: boolean
   displayName: string
+  /** Set for sessions forked from another one */
+  parentName?: string
   preview: string
+  /** Set when the composer holds something unsent here — shown instead of the preview */
+  draft?: string
+  pinned: boolean
+  tags: Array<{ name: string; color: TagColor }>
+  /** Replies that arrived while this session wasn't open */
+  unread: number
   onSwitch: () => void
   onDelete: () => void
+  /** Long-press (or right-click) opens the pin / archive / tag menu */
+  onMenu: (x: number, y: number) => void
 }) {
   const [swipeX, setSwipeX] = useState(0)
   const [showDelete, setShowDelete] = useState(false)
@@ -98,6 +119,7 @@ function SessionItem({
         onTouchStart={handleTouchStart}
         onTouchMove={handleTouchMove}
         onTouchEnd={handleTouchEnd}
+        onContextMenu={(e) => { e.preventDefault(); onMenu(e.clientX, e.clientY) }}
         className={`w-full px-4 py-3 text-left flex items-center gap-3 bg-white dark:bg-[#141414] ${
           isActive
             ? 'bg-amber-50 dark:!bg-amber-500/10'
@@ -118,15 +140,36 @@ function SessionItem({
           </svg>
         </div>
         <div className="flex-1 min-w-0">
-          <div className={`text-[14px] truncate ${
-            isActive
-              ? 'text-amber-800 dark:text-amber-500 font-medium'
-              : 'text-gray-900 dark:text-gray-100'
-          }`}>
-            {displayName}
+          <div className="flex items-center gap-1">
+            {pinned && <span className="text-[11px] flex-shrink-0" aria-label="已置顶">📌</span>}
+            <span className={`text-[14px] truncate ${
+              isActive
+                ? 'text-amber-800 dark:text-amber-500 font-medium'
+                : 'text-gray-900 dark:text-gray-100'
+            }`}>
+              {displayName}
+            </span>
           </div>
+          {tags.length > 0 && (
+            <div className="flex gap-1 mt-0.5 overflow-hidden">
+              {tags.map((tag) => (
+                <span key={tag.name} className={`px-1.5 rounded text-[10px] leading-4 flex-shrink-0 ${TAG_CHIP_CLASS[tag.color]}`}>
+                  {tag.name}
+                </span>
+              ))}
+            </div>
+          )}
+          {parentName && (
+            <div className="text-[11px] text-amber-700/80 dark:text-amber-500/80 truncate">
+              ⑂ 分支自「{parentName}」
+            </div>
+          )}
           <div className="flex items-center gap-1.5">
-            {preview && (
+            {draft !== undefined ? (
+              <span className="text-[12px] text-gray-400 dark:text-gray-500 truncate flex-1 min-w-0">
+                <span className="text-red-500 dark:text-red-400">[草稿]</span> {draft}
+              </span>
+            ) : preview && (
               <span className="text-[12px] text-gray-400 dark:text-gray-500 truncate flex-1 min-w-0">
                 {preview}
               </span>
@@ -138,7 +181,11 @@ function SessionItem({
             )}
           </div>
         </div>
-        {isActive && (
+        {unread > 0 ? (
+          <span className="min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[11px] font-medium leading-[18px] text-center flex-shrink-0">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        ) : isActive && (
           <div className="w-1.5 h-1.5 rounded-full bg-amber-500 flex-shrink-0" />
         )}
       </div>
@@ -150,32 +197,45 @@ export default function SessionDrawer() {
   const {
     showDrawer,
     sessions,
+    sessionMeta,
+    tagColors,
     messages,
+    drafts,
+    unread,
     currentSessionKey,
     switchSession,
     createSession,
     deleteSession,
+    organizeSession,
     setShowDrawer,
+    setShowSearch,
     getSessionDisplayName,
   } = useStore()
 
   const getPreview = useCallback((key: string) => {
     const msgs = messages[key]
-    if (!msgs || msgs.length === 0) return ''
-    const last = msgs[msgs.length - 1]
-    const text = typeof last.content === 'string' ? last.content : ''
-    // Strip markdown formatting for preview
-    const clean = text.replace(/[#*_`~\[\]]/g, '').replace(/\n+/g, ' ').trim()
-    return clean.length > 40 ? clean.slice(0, 40) + '…' : clean
+    return msgs && msgs.length > 0 ? messagePreview(msgs[msgs.length - 1]) : ''
+  }, [messages])
+
+  // The gateway's lastActivity lags replies received since the last sessions.list
+  const getActivity = useCallback((session: { key: string; lastActivity?: number }) => {
+    const msgs = messages[session.key]
+    return Math.max(session.lastActivity ?? 0, msgs?.[msgs.length - 1]?.timestamp ?? 0)
   }, [messages])
 
   const drawerRef = useRef<HTMLDivElement>(null)
   const [search, setSearch] = useState('')
   const [pendingDelete, setPendingDelete] = useState<string | null>(null)
+  const [tagFilter, setTagFilter] = useState<string | null>(null)
+  const [showArchived, setShowArchived] = useState(false)
+  const [menu, setMenu] = useState<{ key: string; x: number; y: number } | null>(null)
+  const [editingTags, setEditingTags] = useState<string | null>(null)
   const close = useCallback(() => {
+    // Keep the drawer open while one of its own overlays is up
+    if (menu || editingTags || pendingDelete) return
     setShowDrawer(false)
     setSearch('')
-  }, [setShowDrawer])
+  }, [setShowDrawer, menu, editingTags, pendingDelete])
 
   useEffect(() => {
     if (!showDrawer) return
@@ -205,12 +265,72 @@ export default function SessionDrawer() {
     ? sessions
     : [{ key: currentSessionKey }]
 
-  const filteredSessions = search.trim()
-    ? displaySessions.filter((s) => {
-        const name = getSessionDisplayName(s.key).toLowerCase()
-        return name.includes(search.toLowerCase())
-      })
-    : displaySessions
+  const allTags = useMemo(
+    () => collectTags(displaySessions.map((s) => sessionMeta[s.key]?.tags)),
+    [displaySessions, sessionMeta],
+  )
+  // A filter on a tag that no longer exists shows everything
+  const activeTag = tagFilter && allTags.includes(tagFilter) ? tagFilter : null
+
+  const filteredSessions = displaySessions.filter((s) => {
+    if (activeTag && !sessionMeta[s.key]?.tags?.includes(activeTag)) return false
+    if (!search.trim()) return true
+    return getSessionDisplayName(s.key).toLowerCase().includes(search.toLowerCase())
+  })
+  const byActivity = [...filteredSessions].sort((a, b) => getActivity(b) - getActivity(a))
+  // Pinned on top, the rest by how recently they were active, archived last
+  const pinnedSessions = byActivity.filter((s) => !sessionMeta[s.key]?.archived && sessionMeta[s.key]?.pinned)
+  const recencyGroups: Array<{ label: RecencyBucket; sessions: typeof byActivity }> = []
+  for (const session of byActivity) {
+    if (sessionMeta[session.key]?.archived || sessionMeta[session.key]?.pinned) continue
+    const label = recencyBucket(getActivity(session) || undefined)
+    const group = recencyGroups[recencyGroups.length - 1]
+    if (group?.label === label) group.sessions.push(session)
+    else recencyGroups.push({ label, sessions: [session] })
+  }
+  const archivedSessions = byActivity.filter((s) => sessionMeta[s.key]?.archived)
+
+  const menuItems = (key: string): ContextMenuItem[] => {
+    const meta = sessionMeta[key]
+    return [
+      {
+        label: meta?.pinned ? '取消置顶' : '置顶',
+        icon: '📌',
+        onClick: () => organizeSession(key, { pinned: !meta?.pinned }),
+      },
+      {
+        label: meta?.archived ? '取消归档' : '归档',
+        icon: '🗄️',
+        // Archiving unpins — a pinned session in a collapsed section helps nobody
+        onClick: () => organizeSession(key, meta?.archived ? { archived: false } : { archived: true, pinned: false }),
+      },
+      { label: '标签…', icon: '🏷️', onClick: () => setEditingTags(key) },
+      { label: '删除', icon: '🗑️', onClick: () => setPendingDelete(key), danger: true },
+    ]
+  }
+
+  const renderSession = (session: (typeof displaySessions)[number]) => {
+    const isActive = session.key === currentSessionKey
+    const meta = sessionMeta[session.key]
+    return (
+      <SessionItem
+        key={session.key}
+        session={{ ...session, lastActivity: getActivity(session) || undefined }}
+        isActive={isActive}
+        displayName={getSessionDisplayName(session.key)}
+        parentName={meta?.parentKey ? getSessionDisplayName(meta.parentKey) : undefined}
+        preview={getPreview(session.key)}
+        // The open session's draft is right there in the composer
+        draft={session.key !== currentSessionKey && drafts[session.key] ? draftPreview(drafts[session.key]) : undefined}
+        pinned={!!meta?.pinned}
+        unread={unread[session.key] ?? 0}
+        tags={(meta?.tags ?? []).map((name) => ({ name, color: tagColor(name, tagColors) }))}
+        onSwitch={() => { switchSession(session.key); close() }}
+        onDelete={() => setPendingDelete(session.key)}
+        onMenu={(x, y) => setMenu({ key: session.key, x, y })}
+      />
+    )
+  }
 
   return (
     <div
@@ -240,6 +360,15 @@ export default function SessionDrawer() {
           <h2 className="text-[17px] font-semibold text-gray-900 dark:text-white">
             对话
           </h2>
+          <button
+            onClick={() => { setShowSearch(true); close() }}
+            className="ml-auto flex items-center justify-center p-2 rounded-xl active:bg-gray-100 dark:active:bg-gray-800"
+            aria-label="Search messages"
+          >
+            <svg className="w-5 h-5 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-4.35-4.35M10.5 18a7.5 7.5 0 100-15 7.5 7.5 0 000 15z" />
+            </svg>
+          </button>
           <button
             onClick={close}
             className="flex items-center justify-center p-2 -mr-2 rounded-xl active:bg-gray-100 dark:active:bg-gray-800"
@@ -264,21 +393,68 @@ export default function SessionDrawer() {
           </div>
         )}
 
+        {/* Tag filter */}
+        {allTags.length > 0 && (
+          <div className="flex gap-1.5 px-3 py-2 overflow-x-auto border-b border-gray-100 dark:border-gray-800">
+            <button
+              onClick={() => setTagFilter(null)}
+              className={`px-2.5 py-1 rounded-full text-[12px] flex-shrink-0 transition-all ${
+                !activeTag
+                  ? 'bg-gray-900 dark:bg-white text-white dark:text-gray-900'
+                  : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'
+              }`}
+            >
+              全部
+            </button>
+            {allTags.map((tag) => (
+              <button
+                key={tag}
+                onClick={() => setTagFilter(activeTag === tag ? null : tag)}
+                className={`flex items-center gap-1 px-2.5 py-1 rounded-full text-[12px] flex-shrink-0 transition-all ${
+                  activeTag === tag
+                    ? 'bg-gray-900 dark:bg-white text-white dark:text-gray-900'
+                    : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'
+                }`}
+              >
+                <span className={`w-2 h-2 rounded-full ${TAG_DOT_CLASS[tagColor(tag, tagColors)]}`} />
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
+
         <div className="flex-1 overflow-y-auto py-1">
-          {filteredSessions.map((session) => {
-            const isActive = session.key === currentSessionKey
-            return (
-              <SessionItem
-                key={session.key}
-                session={session}
-                isActive={isActive}
-                displayName={getSessionDisplayName(session.key)}
-                preview={getPreview(session.key)}
-                onSwitch={() => { switchSession(session.key); close() }}
-                onDelete={() => setPendingDelete(session.key)}
-              />
-            )
-          })}
+          {pinnedSessions.length > 0 && (
+            <>
+              <div className="px-4 pt-2 pb-1 text-[12px] text-gray-400 dark:text-gray-500">置顶</div>
+              {pinnedSessions.map(renderSession)}
+            </>
+          )}
+
+          {recencyGroups.map((group) => (
+            <div key={group.label}>
+              <div className="px-4 pt-2 pb-1 text-[12px] text-gray-400 dark:text-gray-500">{group.label}</div>
+              {group.sessions.map(renderSession)}
+            </div>
+          ))}
+
+          {archivedSessions.length > 0 && (
+            <>
+              <button
+                onClick={() => setShowArchived((v) => !v)}
+                className="w-full flex items-center gap-1.5 px-4 pt-3 pb-1.5 text-[12px] text-gray-400 dark:text-gray-500"
+              >
+                <svg
+                  className={`w-3 h-3 transition-transform ${showArchived ? 'rotate-90' : ''}`}
+                  fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 4.5l7.5 7.5-7.5 7.5" />
+                </svg>
+                已归档 ({archivedSessions.length})
+              </button>
+              {showArchived && archivedSessions.map(renderSession)}
+            </>
+          )}
         </div>
 
         <div className="border-t border-gray-100 dark:border-gray-800 p-3 safe-bottom">
@@ -298,6 +474,19 @@ export default function SessionDrawer() {
         </div>
       </div>
 
+      {menu && (
+        <ContextMenu
+          items={menuItems(menu.key)}
+          x={menu.x}
+          y={menu.y}
+          onClose={() => setMenu(null)}
+        />
+      )}
+
+      {editingTags && (
+        <TagEditor sessionKey={editingTags} onClose={() => setEditingTags(null)} />
+      )}
+
       {/* Delete confirmation */}
       {pendingDelete && (
         <ConfirmDialog
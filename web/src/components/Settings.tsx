@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState } from 'react'
 import { useStore } from '../store'
 import ConfirmDialog from './ConfirmDialog'
+import StorageUsage from './StorageUsage'
 
 declare global {
   interface Window {
@@ -10,7 +11,7 @@ declare global {
 }
 
 export default function Settings() {
-  const { theme, fontSize, connectionState, sessions, currentSessionKey, setShowSettings, setTheme, setFontSize } = useStore()
+  const { theme, fontSize, connectionState, sessions, currentSessionKey, setShowSettings, setTheme, setFontSize, exportConversations, setShowImport, setShowActionEditor } = useStore()
   const [showClearConfirm, setShowClearConfirm] = useState(false)
   const modalRef = useRef<HTMLDivElement>(null)
 
@@ -42,6 +43,12 @@ export default function Settings() {
     { value: 'dark', label: '深色' },
   ] as const
 
+  const exportOptions = [
+    { value: 'markdown', label: 'Markdown' },
+    { value: 'html', label: 'HTML' },
+    { value: 'json', label: 'JSON' },
+  ] as const
+
   const appVersion = window.__LILCLAW_VERSION || 'dev'
 
   return (
@@ -69,7 +76,7 @@ export default function Settings() {
         </div>
 
         {/* Content */}
-        <div className="p-4 space-y-5">
+        <div className="p-4 space-y-5 max-h-[70vh] overflow-y-auto">
           {/* Theme */}
           <div>
             <label className="block text-sm font-medium text-gray-600 dark:text-gray-400 mb-2">
@@ -166,6 +173,55 @@ export default function Settings() {
             </div>
           </div>
 
+          {/* Storage */}
+          <StorageUsage />
+
+          {/* Export */}
+          <div>
+            <label className="block text-sm font-medium text-gray-600 dark:text-gray-400 mb-2">
+              导出全部对话
+            </label>
+            <div className="flex gap-2">
+              {exportOptions.map((opt) => (
+                <button
+                  key={opt.value}
+                  onClick={() => exportConversations(opt.value)}
+                  className="flex-1 py-2.5 px-3 rounded-xl text-sm font-medium bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 active:bg-gray-200 dark:active:bg-gray-700 transition-all"
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Import */}
+          <button
+            onClick={() => {
+              setShowSettings(false)
+              setShowImport(true)
+            }}
+            className="w-full flex items-center justify-between py-3 px-4 rounded-xl bg-gray-50 dark:bg-gray-800/50 active:bg-gray-100 dark:active:bg-gray-800 transition-colors"
+          >
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">导入对话</span>
+            <svg className="w-4 h-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+
+          {/* Action cards */}
+          <button
+            onClick={() => {
+              setShowSettings(false)
+              setShowActionEditor(true)
+            }}
+            className="w-full flex items-center justify-between py-3 px-4 rounded-xl bg-gray-50 dark:bg-gray-800/50 active:bg-gray-100 dark:active:bg-gray-800 transition-colors"
+          >
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">管理快捷卡片</span>
+            <svg className="w-4 h-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+
           {/* Clear all conversations */}
           {sessions.length > 1 && (
             <button
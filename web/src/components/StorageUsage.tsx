@@ -0,0 +1,175 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useStore } from '../store'
+import { loadAttachmentInfo, type AttachmentInfo } from '../lib/messageDb'
+import type { ChatMessage } from '../lib/gateway'
+import { estimateStorage, formatBytes, measureSessions, type StorageEstimate } from '../lib/storageManager'
+import { showToast } from './Toast'
+
+const sessionDayOptions = [
+  { value: 0, label: '永久' },
+  { value: 30, label: '30 天' },
+  { value: 90, label: '90 天' },
+  { value: 180, label: '180 天' },
+]
+
+const attachmentDayOptions = [
+  { value: 0, label: '永久' },
+  { value: 7, label: '7 天' },
+  { value: 30, label: '30 天' },
+  { value: 90, label: '90 天' },
+]
+
+// Settings is a small sheet — the biggest sessions are what matter
+const MAX_LISTED = 6
+
+function OptionRow({ label, options, value, onChange }: {
+  label: string
+  options: Array<{ value: number; label: string }>
+  value: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <div>
+      <span className="block text-[12px] text-gray-500 dark:text-gray-400 mb-1.5">{label}</span>
+      <div className="flex gap-1.5">
+        {options.map((opt) => (
+          <button
+            key={opt.value}
+            onClick={() => onChange(opt.value)}
+            className={`flex-1 py-1.5 rounded-lg text-[12px] font-medium transition-all ${
+              value === opt.value
+                ? 'bg-gray-900 dark:bg-white text-white dark:text-gray-900'
+                : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 active:bg-gray-200 dark:active:bg-gray-700'
+            }`}
+          >
+            {opt.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/** Settings → 存储空间: quota usage, biggest sessions and the eviction policy */
+export default function StorageUsage() {
+  const { branches, sessionMeta, storagePolicy, setStoragePolicy, applyStoragePolicy, loadCachedTranscripts, getSessionDisplayName } = useStore()
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null)
+  const [attachments, setAttachments] = useState<AttachmentInfo[] | null>(null)
+  // Memory only has the newest part of each session — measure what's on disk
+  const [transcripts, setTranscripts] = useState<Record<string, ChatMessage[]>>({})
+  const [refresh, setRefresh] = useState(0)
+  const [cleaning, setCleaning] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([estimateStorage(), loadAttachmentInfo(), loadCachedTranscripts()]).then(([est, info, cached]) => {
+      if (cancelled) return
+      setEstimate(est)
+      setAttachments(info)
+      setTranscripts(cached)
+    })
+    return () => { cancelled = true }
+  }, [refresh, loadCachedTranscripts])
+
+  const usage = useMemo(
+    () => (attachments ? measureSessions(transcripts, branches, attachments) : []),
+    [transcripts, branches, attachments],
+  )
+
+  const handleClean = async () => {
+    setCleaning(true)
+    let result: Awaited<ReturnType<typeof applyStoragePolicy>>
+    try {
+      result = await applyStoragePolicy()
+    } catch (err) {
+      console.error('Storage cleanup failed:', err)
+      showToast('清理本地缓存失败', 'error')
+      return
+    } finally {
+      setCleaning(false)
+      setRefresh((n) => n + 1)
+    }
+    showToast(
+      result.sessions + result.attachments > 0
+        ? `已清理 ${result.sessions} 个对话缓存、${result.attachments} 张图片`
+        : '没有需要清理的内容',
+      'info',
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-600 dark:text-gray-400">
+        存储空间
+      </label>
+
+      <div className="rounded-xl bg-gray-50 dark:bg-gray-800/50 p-3 space-y-2">
+        {estimate ? (
+          <>
+            <div className="flex items-center justify-between text-[13px]">
+              <span className="text-gray-500 dark:text-gray-400">已使用</span>
+              <span className="text-gray-700 dark:text-gray-300">
+                {formatBytes(estimate.usage)}{estimate.quota > 0 && ` / ${formatBytes(estimate.quota)}`}
+              </span>
+            </div>
+            {estimate.quota > 0 && (
+              <div className="h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${estimate.usage / estimate.quota > 0.8 ? 'bg-red-500' : 'bg-amber-700 dark:bg-amber-500'}`}
+                  style={{ width: `${Math.min(100, Math.max(1, (estimate.usage / estimate.quota) * 100))}%` }}
+                />
+              </div>
+            )}
+          </>
+        ) : (
+          <span className="text-[13px] text-gray-400 dark:text-gray-500">无法读取存储用量</span>
+        )}
+
+        {usage.length > 0 && (
+          <div className="pt-1 space-y-1.5">
+            {usage.slice(0, MAX_LISTED).map((u) => (
+              <div key={u.key} className="flex items-center gap-2 text-[12px]">
+                <span className="flex-1 truncate text-gray-600 dark:text-gray-400">
+                  {sessionMeta[u.key]?.pinned && <span className="mr-1">📌</span>}
+                  {getSessionDisplayName(u.key)}
+                </span>
+                <span className="flex-shrink-0 text-gray-400 dark:text-gray-500 font-mono">
+                  {formatBytes(u.messageBytes + u.attachmentBytes)}
+                </span>
+              </div>
+            ))}
+            {usage.length > MAX_LISTED && (
+              <div className="text-[11px] text-gray-400 dark:text-gray-500">
+                另有 {usage.length - MAX_LISTED} 个对话
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <OptionRow
+        label="保留对话缓存（按最后活动时间）"
+        options={sessionDayOptions}
+        value={storagePolicy.sessionDays}
+        onChange={(sessionDays) => setStoragePolicy({ ...storagePolicy, sessionDays })}
+      />
+      <OptionRow
+        label="保留图片"
+        options={attachmentDayOptions}
+        value={storagePolicy.attachmentDays}
+        onChange={(attachmentDays) => setStoragePolicy({ ...storagePolicy, attachmentDays })}
+      />
+      <p className="text-[11px] text-gray-400 dark:text-gray-500">
+        只清理本机缓存：对话打开时会从服务重新加载，清理掉的图片不再显示。置顶的对话不会被清理。
+      </p>
+
+      <button
+        onClick={handleClean}
+        disabled={cleaning}
+        className="w-full py-2.5 px-3 rounded-xl text-sm font-medium bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 active:bg-gray-200 dark:active:bg-gray-700 disabled:opacity-50 transition-all"
+      >
+        {cleaning ? '正在清理...' : '立即清理'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react'
+import { useStore } from '../store'
+import { TAG_COLORS, TAG_DOT_CLASS, collectTags, normalizeTag, tagColor } from '../lib/sessionTags'
+
+/** Pick a session's tags from the ones in use, or add new ones; tap a dot to recolor */
+export default function TagEditor({ sessionKey, onClose }: { sessionKey: string; onClose: () => void }) {
+  const { sessionMeta, tagColors, organizeSession, setTagColor, getSessionDisplayName } = useStore()
+  const [selected, setSelected] = useState<string[]>(sessionMeta[sessionKey]?.tags ?? [])
+  const [draft, setDraft] = useState('')
+
+  // Tags created in this dialog show up alongside the ones already in use
+  const [added, setAdded] = useState<string[]>([])
+  const allTags = useMemo(() => {
+    const known = collectTags(Object.values(sessionMeta).map((m) => m.tags))
+    return [...known, ...added.filter((t) => !known.includes(t))]
+  }, [sessionMeta, added])
+
+  const toggle = (tag: string) => {
+    setSelected((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]))
+  }
+
+  const cycleColor = (tag: string) => {
+    const current = tagColor(tag, tagColors)
+    setTagColor(tag, TAG_COLORS[(TAG_COLORS.indexOf(current) + 1) % TAG_COLORS.length])
+  }
+
+  const addDraft = () => {
+    const tag = normalizeTag(draft)
+    setDraft('')
+    if (!tag) return
+    if (!allTags.includes(tag)) setAdded((prev) => [...prev, tag])
+    if (!selected.includes(tag)) setSelected((prev) => [...prev, tag])
+  }
+
+  const save = () => {
+    organizeSession(sessionKey, { tags: selected.length > 0 ? selected : undefined })
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <div className="relative w-full max-w-xs bg-white dark:bg-[#1e1812] rounded-2xl shadow-2xl overflow-hidden animate-fade-in">
+        <div className="px-5 pt-5 pb-3">
+          <h3 className="text-[17px] font-semibold text-gray-900 dark:text-white text-center">
+            标签
+          </h3>
+          <p className="text-[12px] text-gray-400 dark:text-gray-500 text-center truncate mt-0.5">
+            {getSessionDisplayName(sessionKey)}
+          </p>
+        </div>
+
+        <div className="max-h-64 overflow-y-auto px-3">
+          {allTags.length === 0 && (
+            <p className="px-2 py-3 text-[13px] text-gray-400 dark:text-gray-500 text-center">
+              还没有标签，在下方添加一个
+            </p>
+          )}
+          {allTags.map((tag) => (
+            <div
+              key={tag}
+              onClick={() => toggle(tag)}
+              className="flex items-center gap-3 px-2 py-2.5 rounded-lg active:bg-gray-50 dark:active:bg-gray-800"
+            >
+              <button
+                onClick={(e) => { e.stopPropagation(); cycleColor(tag) }}
+                className={`w-4 h-4 rounded-full flex-shrink-0 ${TAG_DOT_CLASS[tagColor(tag, tagColors)]}`}
+                aria-label="更换颜色"
+              />
+              <span className="flex-1 text-[14px] text-gray-800 dark:text-gray-200 truncate">{tag}</span>
+              {selected.includes(tag) && (
+                <svg className="w-4 h-4 text-amber-700 dark:text-amber-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 12.75l6 6 9-13.5" />
+                </svg>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 px-5 py-3">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') addDraft() }}
+            maxLength={24}
+            placeholder="新标签"
+            className="flex-1 min-w-0 px-3 py-1.5 text-[13px] rounded-lg bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-amber-700/40"
+          />
+          <button
+            onClick={addDraft}
+            disabled={!normalizeTag(draft)}
+            className="px-3 py-1.5 rounded-lg text-[13px] font-medium bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 active:bg-gray-200 dark:active:bg-gray-700 disabled:opacity-40"
+          >
+            添加
+          </button>
+        </div>
+
+        <div className="flex border-t border-gray-100 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3.5 text-[15px] font-medium text-gray-500 dark:text-gray-400 active:bg-gray-50 dark:active:bg-gray-800 border-r border-gray-100 dark:border-gray-700 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={save}
+            className="flex-1 py-3.5 text-[15px] font-semibold text-amber-700 dark:text-amber-500 active:bg-amber-50 dark:active:bg-amber-500/10 transition-colors"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
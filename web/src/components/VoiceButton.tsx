@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect, useRef } from 'react'
+import { useState, useCallback, useEffect, useImperativeHandle, useRef, type Ref } from 'react'
 import { showToast } from './Toast'
 
 declare global {
@@ -10,13 +10,20 @@ declare global {
   }
 }
 
+/** Lets a voice action card start listening without a tap on the button */
+export interface VoiceButtonHandle {
+  /** False when speech input isn't available here */
+  start: () => boolean
+}
+
 interface VoiceButtonProps {
   onResult: (text: string) => void
+  ref?: Ref<VoiceButtonHandle>
 }
 
 const VOICE_TIMEOUT_MS = 15_000 // Auto-stop after 15s of silence
 
-export default function VoiceButton({ onResult }: VoiceButtonProps) {
+export default function VoiceButton({ onResult, ref }: VoiceButtonProps) {
   const [state, setState] = useState<'idle' | 'listening' | 'processing'>('idle')
   const [partial, setPartial] = useState('')
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
@@ -86,6 +93,14 @@ export default function VoiceButton({ onResult }: VoiceButtonProps) {
     }
   }, [state, clearVoiceTimeout])
 
+  useImperativeHandle(ref, () => ({
+    start: () => {
+      if (!hasVoice) return false
+      if (state === 'idle') toggle()
+      return true
+    },
+  }), [hasVoice, state, toggle])
+
   if (!hasVoice) return null
 
   return (
@@ -1,14 +1,65 @@
 // Action Card definitions — designed for non-tech Chinese users (parents generation)
+import { array, boolean, literal, number, object, optional, string, validate, type Result } from './validate'
+
+export type ActionInputMode = 'text' | 'camera' | 'image' | 'file' | 'url' | 'voice'
+export type ActionColor = 'purple' | 'blue' | 'emerald' | 'amber' | 'red' | 'orange' | 'pink' | 'gray'
+export type ActionFieldType = 'text' | 'choice' | 'date' | 'number'
+
+/** A named blank in the template, filled in a form before the card sends: `${name}` */
+export interface ActionField {
+  name: string
+  label: string
+  type: ActionFieldType
+  /** Choices for `choice` fields */
+  options?: string[]
+  defaultValue?: string
+  /** Required unless set — an empty optional field renders as nothing */
+  optional?: boolean
+}
+
 export interface ActionCard {
   id: string
   icon: string
   title: string
   description: string
-  inputMode: 'text' | 'camera' | 'image' | 'file' | 'url' | 'voice'
+  inputMode: ActionInputMode
   promptTemplate: string
-  color: string
+  color: ActionColor
+  fields?: ActionField[]
 }
 
+export const ACTION_INPUT_MODES: Array<{ value: ActionInputMode; label: string }> = [
+  { value: 'text', label: '文字' },
+  { value: 'camera', label: '拍照' },
+  { value: 'image', label: '图片' },
+  { value: 'file', label: '文件' },
+  { value: 'url', label: '链接' },
+  { value: 'voice', label: '语音' },
+]
+
+export const ACTION_FIELD_TYPES: Array<{ value: ActionFieldType; label: string }> = [
+  { value: 'text', label: '文字' },
+  { value: 'choice', label: '选项' },
+  { value: 'date', label: '日期' },
+  { value: 'number', label: '数字' },
+]
+
+export const ACTION_COLORS: ActionColor[] = ['purple', 'blue', 'emerald', 'amber', 'red', 'orange', 'pink', 'gray']
+
+// Full class names so Tailwind keeps them
+export const ACTION_COLOR_CLASS: Record<ActionColor, string> = {
+  purple: 'bg-purple-50 dark:bg-purple-900/20 border-purple-200 dark:border-purple-800',
+  blue: 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800',
+  emerald: 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800',
+  amber: 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800',
+  red: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800',
+  orange: 'bg-orange-50 dark:bg-orange-900/20 border-orange-200 dark:border-orange-800',
+  pink: 'bg-pink-50 dark:bg-pink-900/20 border-pink-200 dark:border-pink-800',
+  gray: 'bg-gray-50 dark:bg-gray-800/50 border-gray-200 dark:border-gray-700',
+}
+
+export const INPUT_PLACEHOLDER = '${input}'
+
 export const BUILTIN_ACTIONS: ActionCard[] = [
   {
     id: 'photo-ask',
@@ -17,7 +68,7 @@ export const BUILTIN_ACTIONS: ActionCard[] = [
     description: '拍张照片，问你想知道的',
     inputMode: 'camera',
     promptTemplate: '请看这张图片，${input}',
-    color: 'bg-purple-50 dark:bg-purple-900/20 border-purple-200 dark:border-purple-800',
+    color: 'purple',
   },
   {
     id: 'help-write',
@@ -26,7 +77,7 @@ export const BUILTIN_ACTIONS: ActionCard[] = [
     description: '写通知、祝福语、请假条…',
     inputMode: 'text',
     promptTemplate: '请帮我写：${input}\n\n要求：语言通顺自然，适合中文语境。',
-    color: 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800',
+    color: 'blue',
   },
   {
     id: 'translate',
@@ -35,7 +86,7 @@ export const BUILTIN_ACTIONS: ActionCard[] = [
     description: '中英互译，看不懂的拍照也行',
     inputMode: 'text',
     promptTemplate: '请翻译以下内容。如果是中文就翻译成英文，如果是英文就翻译成中文：\n\n${input}',
-    color: 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800',
+    color: 'emerald',
   },
   {
     id: 'look-up',
@@ -44,7 +95,7 @@ export const BUILTIN_ACTIONS: ActionCard[] = [
     description: '不懂的事情问一问',
     inputMode: 'text',
     promptTemplate: '${input}\n\n请用简单易懂的中文解释，避免专业术语。',
-    color: 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800',
+    color: 'amber',
   },
   {
     id: 'health',
@@ -53,7 +104,7 @@ export const BUILTIN_ACTIONS: ActionCard[] = [
     description: '身体不舒服？先问问看',
     inputMode: 'text',
     promptTemplate: '我想咨询一个健康问题：${input}\n\n请给出通俗易懂的建议，并提醒我严重时应该去医院。',
-    color: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800',
+    color: 'red',
   },
   {
     id: 'daily-life',
@@ -62,6 +113,246 @@ export const BUILTIN_ACTIONS: ActionCard[] = [
     description: '菜谱、生活窍门、出行建议',
     inputMode: 'text',
     promptTemplate: '${input}\n\n请给出实用的建议，用简单的中文回答。',
-    color: 'bg-orange-50 dark:bg-orange-900/20 border-orange-200 dark:border-orange-800',
+    color: 'orange',
   },
 ]
+
+export function createActionId(): string {
+  return `card_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function newActionCard(): ActionCard {
+  return {
+    id: createActionId(),
+    icon: '⭐',
+    title: '',
+    description: '',
+    inputMode: 'text',
+    promptTemplate: INPUT_PLACEHOLDER,
+    color: 'amber',
+  }
+}
+
+// --- Filling a card's template ---
+
+/** What a card collected: the user's words, plus the link or file its input mode asked for */
+export interface ActionInput {
+  text: string
+  link?: string
+  fileName?: string
+}
+
+// Stops at whitespace and CJK punctuation — share sheets wrap links in prose
+const LINK_RE = /https?:\/\/[^\s<>"'，。！？；、（）【】「」]+/i
+const BARE_DOMAIN_RE = /^[\w-]+(\.[\w-]+)+(\/\S*)?$/
+
+function normalizeLink(candidate: string): string | null {
+  try {
+    const url = new URL(candidate)
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+    if (!url.hostname.includes('.') && url.hostname !== 'localhost') return null
+    return url.href
+  } catch {
+    return null
+  }
+}
+
+/** The first valid http(s) link in `text`, and what's left around it — null if there is none */
+export function extractLink(text: string): { link: string; rest: string } | null {
+  const trimmed = text.trim()
+  const match = trimmed.match(LINK_RE)
+  if (match) {
+    const link = normalizeLink(match[0])
+    return link ? { link, rest: trimmed.replace(match[0], '').trim() } : null
+  }
+  // "example.com/page" typed without a scheme
+  if (BARE_DOMAIN_RE.test(trimmed)) {
+    const link = normalizeLink(`https://${trimmed}`)
+    return link ? { link, rest: '' } : null
+  }
+  return null
+}
+
+const PLACEHOLDER_RE = /\$\{([^}\s]+)\}/g
+
+/**
+ * The message a card sends: `${input}` becomes the link or file name plus the
+ * user's words, and every other `${name}` its value in `variables`
+ */
+export function fillTemplate(template: string, input: ActionInput, variables: Record<string, string> = {}): string {
+  const value = [input.link, input.fileName && `「${input.fileName}」`, input.text].filter(Boolean).join('\n')
+  const filled = template.replace(PLACEHOLDER_RE, (whole, name: string) =>
+    name === 'input' ? value : variables[name] ?? whole)
+  // Templates written without the placeholder still get the input, after them
+  if (!template.includes(INPUT_PLACEHOLDER)) return [filled, value].filter(Boolean).join('\n\n')
+  return filled
+}
+
+// --- Template fields and built-in variables ---
+
+export const BUILTIN_VARIABLES: Array<{ name: string; label: string }> = [
+  { name: 'date', label: '今天日期' },
+  { name: 'time', label: '现在时间' },
+  { name: 'clipboard', label: '剪贴板' },
+]
+
+const RESERVED_NAMES = new Set(['input', ...BUILTIN_VARIABLES.map((v) => v.name)])
+const WEEKDAYS = '日一二三四五六'
+const ISO_DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/
+
+/** "2026年10月19日 星期一" — how dates read in a prompt */
+export function formatPromptDate(date: Date): string {
+  return `${date.getFullYear()}年${date.getMonth() + 1}月${date.getDate()}日 星期${WEEKDAYS[date.getDay()]}`
+}
+
+/** Local YYYY-MM-DD, the value of a date input */
+export function isoDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+function parseIsoDate(value: string): Date | null {
+  const match = value.match(ISO_DATE_RE)
+  if (!match) return null
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  return date.getDate() === Number(match[3]) ? date : null
+}
+
+export function templateUses(template: string, name: string): boolean {
+  return template.includes(`\${${name}}`)
+}
+
+/** Values of the built-ins `template` uses — the clipboard is only read when asked for */
+export async function builtinVariables(template: string, now = new Date()): Promise<Record<string, string>> {
+  const values: Record<string, string> = {
+    date: formatPromptDate(now),
+    time: `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`,
+  }
+  if (templateUses(template, 'clipboard')) values.clipboard = await readClipboard()
+  return values
+}
+
+async function readClipboard(): Promise<string> {
+  // The WebView blocks navigator.clipboard reads; the app reads it natively
+  const bridge = window.LilClaw as unknown as { getClipboardText?: () => string } | undefined
+  try {
+    if (bridge?.getClipboardText) return bridge.getClipboardText()
+    return (await navigator.clipboard?.readText()) ?? ''
+  } catch {
+    return ''
+  }
+}
+
+/** Form values to start from: defaults, and today for date fields without one */
+export function initialFieldValues(fields: ActionField[], now = new Date()): Record<string, string> {
+  return Object.fromEntries(fields.map((f) => [f.name, f.defaultValue ?? (f.type === 'date' ? isoDate(now) : '')]))
+}
+
+/** Per-field problems with what the user filled in; empty when the form can be sent */
+export function validateFieldValues(fields: ActionField[], values: Record<string, string>): Record<string, string> {
+  const errors: Record<string, string> = {}
+  for (const field of fields) {
+    const value = (values[field.name] ?? '').trim()
+    if (!value) {
+      if (!field.optional) errors[field.name] = field.type === 'choice' ? '请选择一项' : '请填写'
+    } else if (field.type === 'number' && !Number.isFinite(Number(value))) {
+      errors[field.name] = '请填写数字'
+    } else if (field.type === 'date' && !parseIsoDate(value)) {
+      errors[field.name] = '日期无效'
+    } else if (field.type === 'choice' && !field.options?.includes(value)) {
+      errors[field.name] = '请从选项中选择'
+    }
+  }
+  return errors
+}
+
+/** Field values as they read in the prompt */
+export function fieldVariables(fields: ActionField[], values: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(fields.map((f) => {
+    const value = (values[f.name] ?? '').trim()
+    const date = f.type === 'date' ? parseIsoDate(value) : null
+    return [f.name, date ? formatPromptDate(date) : value]
+  }))
+}
+
+/** What's wrong with a card's field definitions (editor and imported files); null if nothing */
+export function checkFieldDefinitions(fields: ActionField[]): string | null {
+  const seen = new Set<string>()
+  for (const field of fields) {
+    if (!field.name || /[\s{}$]/.test(field.name)) return `字段名「${field.name}」不能为空或包含空格、括号`
+    if (RESERVED_NAMES.has(field.name)) return `字段名「${field.name}」是内置变量，请换一个`
+    if (seen.has(field.name)) return `字段名「${field.name}」重复了`
+    seen.add(field.name)
+    if (!field.label.trim()) return `字段「${field.name}」缺少显示名称`
+    if (field.type === 'choice' && !field.options?.length) return `字段「${field.label}」至少需要一个选项`
+  }
+  return null
+}
+
+// --- Sharing cards as a file ---
+
+export const ACTIONS_FILE_FORMAT = 'lilclaw-action-cards'
+export const ACTIONS_FILE_VERSION = 1
+
+const actionCardSchema = object({
+  icon: string(),
+  title: string(),
+  description: string(),
+  inputMode: literal('text', 'camera', 'image', 'file', 'url', 'voice'),
+  promptTemplate: string(),
+  color: string(),
+  fields: optional(array(object({
+    name: string(),
+    label: string(),
+    type: literal('text', 'choice', 'date', 'number'),
+    options: optional(array(string())),
+    defaultValue: optional(string()),
+    optional: optional(boolean()),
+  }))),
+})
+
+const actionsFileSchema = object({
+  format: literal(ACTIONS_FILE_FORMAT),
+  version: number(),
+  cards: array(actionCardSchema),
+})
+
+export function serializeActions(cards: ActionCard[]): string {
+  return JSON.stringify({
+    format: ACTIONS_FILE_FORMAT,
+    version: ACTIONS_FILE_VERSION,
+    // Ids are device-local; the importing side assigns its own
+    cards: cards.map(({ id: _id, ...card }) => card),
+  }, null, 2)
+}
+
+/** Parse a shared cards file; the error is user-facing */
+export function parseActionsFile(text: string): Result<ActionCard[]> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return { ok: false, error: '不是有效的 JSON 文件' }
+  }
+  const result = validate(actionsFileSchema, raw)
+  if (!result.ok) {
+    const format = (raw as { format?: unknown } | null)?.format
+    return { ok: false, error: format === ACTIONS_FILE_FORMAT ? `文件内容有误：${result.error}` : '不是 LilClaw 快捷卡片文件' }
+  }
+  if (result.value.version > ACTIONS_FILE_VERSION) {
+    return { ok: false, error: '文件来自更新版本的 LilClaw，请先升级' }
+  }
+  for (const card of result.value.cards) {
+    const problem = checkFieldDefinitions(card.fields ?? [])
+    if (problem) return { ok: false, error: `「${card.title}」：${problem}` }
+  }
+  return {
+    ok: true,
+    value: result.value.cards.map((card) => ({
+      ...card,
+      id: createActionId(),
+      // A color this version doesn't know falls back rather than rendering unstyled
+      color: ACTION_COLORS.includes(card.color as ActionColor) ? (card.color as ActionColor) : 'gray',
+    })),
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Image attachments: Blobs in messageDb, referenced from messages by id.
+ *
+ * Messages carry `{ type: 'image', attachmentId }` instead of a base64 data
+ * URL. Components ask for an object URL (full size or thumbnail); base64 is
+ * only produced again when an image has to leave the device — a re-send or
+ * an export.
+ */
+
+import type { ChatMessage, MessageContent } from './gateway'
+import { deleteAttachments, deleteAttachmentsExcept, getAttachment, inlineImageId, putAttachment, type StoredAttachment } from './messageDb'
+import { base64ToBlob, blobToBase64, dataUrlToBlob, isDataUrl } from './dataUrl'
+
+export type AttachmentVariant = 'full' | 'thumb'
+
+// Longest edge of a thumbnail, in pixels — sharp enough for a bubble on a 3x screen
+const THUMB_MAX = 480
+
+// Object URLs handed out this page load, by `${id}:${variant}`
+const objectUrls = new Map<string, string>()
+// Attachments created this page load whose put hasn't landed — still pending,
+// or failed, in which case this copy is the only one
+const recent = new Map<string, StoredAttachment>()
+
+export function createAttachmentId(): string {
+  return `att_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+async function loadAttachment(id: string): Promise<StoredAttachment | undefined> {
+  return recent.get(id) ?? (await getAttachment(id))
+}
+
+function save(attachment: StoredAttachment) {
+  recent.set(attachment.id, attachment)
+  putAttachment(attachment).then((written) => {
+    if (written) recent.delete(attachment.id)
+  })
+}
+
+/** Store an image and return its id; usable right away, written in the background */
+export function storeImage(mimeType: string, base64: string, id = createAttachmentId()): string {
+  save({ id, mimeType, blob: base64ToBlob(base64, mimeType), createdAt: Date.now() })
+  return id
+}
+
+async function makeThumbnail(blob: Blob): Promise<Blob | null> {
+  const bitmap = await createImageBitmap(blob)
+  const scale = THUMB_MAX / Math.max(bitmap.width, bitmap.height)
+  if (scale >= 1) {
+    bitmap.close()
+    return null // already small — the original doubles as its thumbnail
+  }
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(bitmap.width * scale)
+  canvas.height = Math.round(bitmap.height * scale)
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+  return new Promise((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.8))
+}
+
+async function thumbnailOf(attachment: StoredAttachment): Promise<Blob> {
+  if (attachment.thumbnail) return attachment.thumbnail
+  try {
+    const thumbnail = await makeThumbnail(attachment.blob)
+    if (!thumbnail) return attachment.blob
+    save({ ...attachment, thumbnail })
+    return thumbnail
+  } catch {
+    return attachment.blob // undecodable here — let <img> try the original
+  }
+}
+
+/** Object URL for an attachment, or null if it's gone (evicted or never stored) */
+export async function attachmentUrl(id: string, variant: AttachmentVariant): Promise<string | null> {
+  const key = `${id}:${variant}`
+  const cached = objectUrls.get(key)
+  if (cached) return cached
+  const attachment = await loadAttachment(id)
+  if (!attachment) return null
+  const blob = variant === 'thumb' ? await thumbnailOf(attachment) : attachment.blob
+  // Another caller may have raced us here
+  const existing = objectUrls.get(key)
+  if (existing) return existing
+  const url = URL.createObjectURL(blob)
+  objectUrls.set(key, url)
+  return url
+}
+
+/** Base64 payload for sending an attachment to the gateway again */
+export async function attachmentBase64(id: string): Promise<{ mimeType: string; content: string } | null> {
+  const attachment = await loadAttachment(id)
+  if (!attachment) return null
+  return { mimeType: attachment.mimeType, content: await blobToBase64(attachment.blob) }
+}
+
+/** Move inline data: URL images (server history, imports) into the store; same array if none */
+export function extractInlineImages(messages: ChatMessage[]): ChatMessage[] {
+  let changed = false
+  const out = messages.map((m) => {
+    if (!m.content.some((c) => c.type === 'image' && isDataUrl(c.url))) return m
+    changed = true
+    return {
+      ...m,
+      content: m.content.map((c, i): MessageContent => {
+        const blob = c.type === 'image' && isDataUrl(c.url) ? dataUrlToBlob(c.url) : null
+        if (!blob) return c
+        const id = inlineImageId(m.id, i)
+        save({ id, mimeType: blob.type, blob, createdAt: m.timestamp ?? Date.now() })
+        return { type: 'image', attachmentId: id }
+      }),
+    }
+  })
+  return changed ? out : messages
+}
+
+/** Replace attachment references with data: URLs — for files leaving the device */
+export async function inlineAttachments(messages: ChatMessage[]): Promise<ChatMessage[]> {
+  return Promise.all(messages.map(async (m) => {
+    if (!m.content.some((c) => c.attachmentId)) return m
+    const content = await Promise.all(m.content.map(async (c): Promise<MessageContent> => {
+      if (!c.attachmentId) return c
+      const data = await attachmentBase64(c.attachmentId)
+      return data ? { type: 'image', url: `data:${data.mimeType};base64,${data.content}` } : { type: 'text', text: '[图片已删除]' }
+    }))
+    return { ...m, content }
+  }))
+}
+
+export function attachmentIdsOf(messages: ChatMessage[]): string[] {
+  return messages.flatMap((m) => m.content.flatMap((c) => (c.attachmentId ? [c.attachmentId] : [])))
+}
+
+function revokeUrls(ids: string[]) {
+  for (const id of ids) {
+    for (const variant of ['full', 'thumb'] as const) {
+      const url = objectUrls.get(`${id}:${variant}`)
+      if (url) URL.revokeObjectURL(url)
+      objectUrls.delete(`${id}:${variant}`)
+    }
+  }
+}
+
+/** Delete stored images nothing refers to any more, and free their object URLs */
+export async function pruneAttachments(referenced: ReadonlySet<string>): Promise<void> {
+  revokeUrls(await deleteAttachmentsExcept(new Set([...referenced, ...recent.keys()])))
+}
+
+/** Evict specific images; messages that show them fall back to a placeholder */
+export async function evictAttachments(ids: string[]): Promise<void> {
+  if (ids.length === 0) return
+  await deleteAttachments(ids)
+  ids.forEach((id) => recent.delete(id))
+  revokeUrls(ids)
+}
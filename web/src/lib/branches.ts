@@ -0,0 +1,145 @@
+/**
+ * Alternate conversation tails.
+ *
+ * Editing an earlier user message or regenerating an answer forks the
+ * transcript: everything after the fork point is set aside as a variant and
+ * the new run becomes the live tail. Only the live tail is in the message
+ * list; the other variants are kept here so the user can flip back to them.
+ * The active index is persisted with the branch points.
+ */
+
+import type { ChatMessage } from './gateway'
+import { createClientId, fingerprint, isClientId } from './reconcile'
+
+export interface BranchPoint {
+  id: string
+  /** Last message every variant shares; null when the fork is at the very start */
+  parentId: string | null
+  /** Tails in creation order. The live one is an empty placeholder. */
+  variants: ChatMessage[][]
+  active: number
+}
+
+/** Index the tail after `parentId` starts at, or -1 if the parent isn't live */
+function tailStart(messages: ChatMessage[], parentId: string | null): number {
+  if (parentId === null) return 0
+  const idx = messages.findIndex((m) => m.id === parentId)
+  return idx === -1 ? -1 : idx + 1
+}
+
+/**
+ * Move the tail after `parentId` into a branch point and open an empty live
+ * variant. Returns the truncated message list, ready for the new run.
+ */
+export function forkAt(
+  messages: ChatMessage[],
+  points: BranchPoint[],
+  parentId: string | null,
+): { messages: ChatMessage[]; points: BranchPoint[] } {
+  const start = tailStart(messages, parentId)
+  if (start === -1) return { messages, points }
+  const tail = messages.slice(start)
+  const head = messages.slice(0, start)
+
+  const existing = points.find((p) => p.parentId === parentId)
+  if (existing) {
+    const variants = existing.variants.map((v, i) => (i === existing.active ? tail : v))
+    const updated = { ...existing, variants: [...variants, []], active: variants.length }
+    return { messages: head, points: points.map((p) => (p === existing ? updated : p)) }
+  }
+
+  const point: BranchPoint = { id: createClientId(), parentId, variants: [tail, []], active: 1 }
+  return { messages: head, points: [...points, point] }
+}
+
+/** Swap the live tail at a branch point for another stored variant */
+export function switchVariant(
+  messages: ChatMessage[],
+  points: BranchPoint[],
+  pointId: string,
+  index: number,
+): { messages: ChatMessage[]; points: BranchPoint[] } {
+  const point = points.find((p) => p.id === pointId)
+  if (!point || index === point.active || index < 0 || index >= point.variants.length) {
+    return { messages, points }
+  }
+  const start = tailStart(messages, point.parentId)
+  if (start === -1) return { messages, points }
+
+  const variants = point.variants.map((v, i) => {
+    if (i === point.active) return messages.slice(start)
+    if (i === index) return []
+    return v
+  })
+  return {
+    messages: [...messages.slice(0, start), ...point.variants[index]],
+    points: points.map((p) => (p === point ? { ...point, variants, active: index } : p)),
+  }
+}
+
+/** Ids of every message parked in a non-live variant — history reloads must not resurrect them */
+export function hiddenMessageIds(points: BranchPoint[]): Set<string> {
+  const ids = new Set<string>()
+  for (const p of points) {
+    for (const v of p.variants) {
+      for (const m of v) ids.add(m.id)
+    }
+  }
+  return ids
+}
+
+/**
+ * A variant set aside before the server echoed it still carries client ids.
+ * When those messages show up in chat.history, give the parked copies the
+ * server ids so they stay hidden.
+ */
+export function adoptServerIds(
+  points: BranchPoint[],
+  server: ChatMessage[],
+  liveIds: ReadonlySet<string>,
+): BranchPoint[] {
+  const hidden = hiddenMessageIds(points)
+  const candidates = server.filter((s) => !liveIds.has(s.id) && !hidden.has(s.id))
+  if (candidates.length === 0) return points
+
+  let changed = false
+  const next = points.map((p) => {
+    const variants = p.variants.map((v) =>
+      v.map((m) => {
+        if (!isClientId(m.id)) return m
+        const idx = candidates.findIndex((s) => fingerprint(s) === fingerprint(m))
+        if (idx === -1) return m
+        changed = true
+        const [s] = candidates.splice(idx, 1)
+        return { ...m, id: s.id, status: undefined }
+      }),
+    )
+    return { ...p, variants }
+  })
+  return changed ? next : points
+}
+
+export interface VariantInfo {
+  pointId: string
+  index: number
+  count: number
+}
+
+/**
+ * Variant position keyed by the message that shows the navigator: the first
+ * live message after an edit fork, or the reply when every variant starts with
+ * the same user turn (regenerated answers).
+ */
+export function liveVariants(messages: ChatMessage[], points: BranchPoint[]): Map<string, VariantInfo> {
+  const out = new Map<string, VariantInfo>()
+  for (const p of points) {
+    const start = tailStart(messages, p.parentId)
+    const first = start === -1 ? undefined : messages[start]
+    if (!first) continue
+    const sameTurn = p.variants.every((v, i) => i === p.active || (v[0] && fingerprint(v[0]) === fingerprint(first)))
+    const reply = messages[start + 1]
+    const anchor = sameTurn ? (reply?.role === 'assistant' ? reply : undefined) : first
+    if (anchor) out.set(anchor.id, { pointId: p.id, index: p.active, count: p.variants.length })
+  }
+  return out
+}
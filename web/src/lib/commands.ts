@@ -0,0 +1,78 @@
+/**
+ * Slash commands typed in the composer: the table, fuzzy matching and parsing.
+ * What each command does lives with the composer — most open UI it owns.
+ */
+
+export type SlashCommandName = 'new' | 'rename' | 'model' | 'clear' | 'export' | 'abort' | 'retry' | 'reset' | 'compact'
+
+export interface SlashCommand {
+  name: SlashCommandName
+  description: string
+  /** Argument hint: `<…>` is required, `[…]` optional */
+  args?: string
+  /** Chinese names that match too — /新建 finds /new */
+  aliases: string[]
+  /** Runs on the gateway, so it needs a connection */
+  gateway?: boolean
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { name: 'new', description: '新对话', args: '[名称]', aliases: ['新建', '新对话'] },
+  { name: 'rename', description: '重命名当前对话', args: '<名称>', aliases: ['重命名', '改名'], gateway: true },
+  { name: 'model', description: '切换模型', args: '[模型名]', aliases: ['模型'] },
+  { name: 'clear', description: '清空屏幕（网关记录保留）', aliases: ['清空', '清屏'] },
+  { name: 'export', description: '导出当前对话', args: '[md|html|json]', aliases: ['导出'] },
+  { name: 'abort', description: '停止生成', aliases: ['停止'] },
+  { name: 'retry', description: '重新生成最后的回复', aliases: ['重试', '重新生成'] },
+  { name: 'reset', description: '重置对话，让助手忘掉之前的内容', aliases: ['重置'], gateway: true },
+  { name: 'compact', description: '压缩上下文，释放记忆空间', aliases: ['压缩'], gateway: true },
+]
+
+export function argsRequired(command: SlashCommand): boolean {
+  return command.args?.startsWith('<') ?? false
+}
+
+/**
+ * Subsequence match: every query character appears in order. Higher is better —
+ * runs of consecutive characters and a match at the start count most. Null if no match.
+ */
+export function fuzzyScore(query: string, target: string): number | null {
+  const q = query.toLowerCase()
+  const t = target.toLowerCase()
+  let score = 0
+  let from = 0
+  let prev = -2
+  for (const ch of q) {
+    const at = t.indexOf(ch, from)
+    if (at === -1) return null
+    score += at === prev + 1 ? 3 : 1
+    if (at === 0) score += 5
+    prev = at
+    from = at + 1
+  }
+  // Among equal matches, the shorter name is the closer one
+  return score - t.length * 0.01
+}
+
+/** Commands matching what follows the `/`, best first; all of them for a bare `/` */
+export function matchCommands(query: string): SlashCommand[] {
+  if (!query) return SLASH_COMMANDS
+  return SLASH_COMMANDS
+    .map((command) => {
+      const scores = [fuzzyScore(query, command.name), ...command.aliases.map((a) => fuzzyScore(query, a))]
+        .filter((s): s is number => s !== null)
+      return { command, score: scores.length > 0 ? Math.max(...scores) : null }
+    })
+    .filter((m): m is { command: SlashCommand; score: number } => m.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((m) => m.command)
+}
+
+/** `/rename 周末计划` → the command and its argument; null for anything that isn't one of ours */
+export function parseSlashCommand(text: string): { command: SlashCommand; arg: string } | null {
+  const match = text.trim().match(/^\/(\S+)(?:\s+([\s\S]*))?$/)
+  if (!match) return null
+  const name = match[1].toLowerCase()
+  const command = SLASH_COMMANDS.find((c) => c.name === name || c.aliases.includes(name))
+  return command ? { command, arg: (match[2] ?? '').trim() } : null
+}
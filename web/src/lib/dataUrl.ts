@@ -0,0 +1,44 @@
+/**
+ * data: URL ⇄ Blob ⇄ base64 conversions for images (and picked documents).
+ * The gateway speaks base64; the device stores Blobs.
+ */
+
+const DATA_URL_RE = /^data:([^;,]+);base64,(.+)$/s
+
+export function parseDataUrl(url: string): { mimeType: string; content: string } | null {
+  const match = url.match(DATA_URL_RE)
+  return match ? { mimeType: match[1], content: match[2] } : null
+}
+
+export function isDataUrl(url: string | undefined): url is string {
+  return !!url && url.startsWith('data:')
+}
+
+export function base64ToBlob(content: string, mimeType: string): Blob {
+  const binary = atob(content)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return new Blob([bytes], { type: mimeType })
+}
+
+export function dataUrlToBlob(url: string): Blob | null {
+  const parsed = parseDataUrl(url)
+  return parsed ? base64ToBlob(parsed.content, parsed.mimeType) : null
+}
+
+export async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+/** UTF-8 text of a base64 payload — documents the native picker hands over */
+export function base64ToText(content: string): string {
+  const binary = atob(content)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return new TextDecoder().decode(bytes)
+}
@@ -1,3 +1,14 @@
+/**
+ * Whole calendar days between a timestamp and now (0 = today)
+ */
+function calendarDaysAgo(timestamp: number, now: Date): number {
+  const date = new Date(timestamp)
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  // Round rather than floor: a DST change makes a day 23 or 25 hours long
+  return Math.round((today.getTime() - day.getTime()) / (24 * 60 * 60 * 1000))
+}
+
 /**
  * Format a date for a message separator line
  * Returns: 今天, 昨天, 前天, X月X日, or YYYY年X月X日
@@ -5,10 +16,7 @@
 export function formatDateSeparator(timestamp: number): string {
   const date = new Date(timestamp)
   const now = new Date()
-  
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
-  const msgDay = new Date(date.getFullYear(), date.getMonth(), date.getDate())
-  const diffDays = Math.floor((today.getTime() - msgDay.getTime()) / (24 * 60 * 60 * 1000))
+  const diffDays = calendarDaysAgo(timestamp, now)
   
   if (diffDays === 0) return '今天'
   if (diffDays === 1) return '昨天'
@@ -32,3 +40,16 @@ export function isDifferentDay(t1: number | undefined, t2: number | undefined):
     d1.getMonth() !== d2.getMonth() ||
     d1.getDate() !== d2.getDate()
 }
+
+export type RecencyBucket = '今天' | '昨天' | '更早'
+
+/**
+ * Coarse grouping for lists: 今天, 昨天, or 更早 (also for unknown times)
+ */
+export function recencyBucket(timestamp: number | undefined, now = new Date()): RecencyBucket {
+  if (!timestamp) return '更早'
+  const diffDays = calendarDaysAgo(timestamp, now)
+  if (diffDays <= 0) return '今天'
+  if (diffDays === 1) return '昨天'
+  return '更早'
+}
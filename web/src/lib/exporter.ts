@@ -0,0 +1,167 @@
+/**
+ * Conversation export: Markdown, lossless JSON and a single-file HTML page.
+ *
+ * The file is handed to the native bridge (window.LilClaw.shareFile) so the
+ * Android side can save or share it; in a plain browser it downloads.
+ */
+
+import type { ChatMessage } from './gateway'
+import type { BranchPoint } from './branches'
+import type { SessionMeta } from './types'
+
+export type ExportFormat = 'markdown' | 'json' | 'html'
+
+export const EXPORT_FORMAT = 'lilclaw-chat-export'
+export const EXPORT_VERSION = 1
+
+export interface ExportedSession {
+  key: string
+  label?: string
+  messages: ChatMessage[]
+  /** Alternate tails from edits / regenerations */
+  branches?: BranchPoint[]
+  meta?: SessionMeta
+}
+
+/** The JSON format — also what Settings → 导入 reads back */
+export interface ExportFile {
+  format: typeof EXPORT_FORMAT
+  version: number
+  exportedAt: number
+  sessions: ExportedSession[]
+}
+
+export interface ExportResult {
+  filename: string
+  mimeType: string
+  content: string
+}
+
+function titleOf(session: ExportedSession): string {
+  return session.label?.trim() || session.key
+}
+
+function formatTimestamp(ts: number | undefined): string {
+  if (!ts) return ''
+  const d = new Date(ts)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`
+}
+
+export function toJson(sessions: ExportedSession[]): string {
+  const file: ExportFile = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    sessions,
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+export function toMarkdown(sessions: ExportedSession[]): string {
+  const out: string[] = []
+  for (const session of sessions) {
+    out.push(`# ${titleOf(session)}`, '')
+    let lastDay: string | undefined
+    for (const msg of session.messages) {
+      // Absolute dates — "今天" would be wrong by the time the file is read
+      const day = msg.timestamp ? formatTimestamp(msg.timestamp).slice(0, 10) : undefined
+      if (day && day !== lastDay) {
+        out.push(`---`, '', `*${day}*`, '')
+        lastDay = day
+      }
+      const who = msg.role === 'user' ? '我' : '小爪'
+      const time = formatTimestamp(msg.timestamp)
+      out.push(`### ${who}${time ? ` · ${time}` : ''}`, '')
+      for (const c of msg.content) {
+        if (c.type === 'image' && c.url) {
+          out.push(`![图片](${c.url})`, '')
+        } else if (c.text) {
+          out.push(c.text, '')
+        }
+      }
+    }
+    out.push('')
+  }
+  return out.join('\n').trimEnd() + '\n'
+}
+
+export async function toHtml(sessions: ExportedSession[]): Promise<string> {
+  // Markdown rendering + the app stylesheet are only needed here — load on demand
+  const [{ renderToStaticMarkup }, { createElement }, { default: ExportTranscript }, { default: css }] = await Promise.all([
+    import('react-dom/server'),
+    import('react'),
+    import('../components/ExportTranscript'),
+    import('../index.css?inline'),
+  ])
+  const body = renderToStaticMarkup(createElement(ExportTranscript, { sessions }))
+  const title = sessions.length === 1 ? titleOf(sessions[0]) : `LilClaw 对话导出（${sessions.length} 个）`
+  const dark = document.documentElement.classList.contains('dark')
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN"${dark ? ' class="dark"' : ''}>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${css}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!)
+}
+
+function fileStem(sessions: ExportedSession[]): string {
+  const date = formatTimestamp(Date.now()).slice(0, 10)
+  if (sessions.length !== 1) return `lilclaw-${date}`
+  // Keep CJK, drop characters file systems object to
+  const name = titleOf(sessions[0]).replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 40)
+  return `${name}-${date}`
+}
+
+export async function exportSessions(sessions: ExportedSession[], format: ExportFormat): Promise<ExportResult> {
+  const stem = fileStem(sessions)
+  switch (format) {
+    case 'markdown':
+      return { filename: `${stem}.md`, mimeType: 'text/markdown', content: toMarkdown(sessions) }
+    case 'json':
+      return { filename: `${stem}.json`, mimeType: 'application/json', content: toJson(sessions) }
+    case 'html':
+      return { filename: `${stem}.html`, mimeType: 'text/html', content: await toHtml(sessions) }
+  }
+}
+
+function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text)
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+/** Hand the file to the native share sheet, or download it in a browser */
+export function saveExport(file: ExportResult) {
+  const bridge = window.LilClaw as unknown as
+    | { shareFile?: (filename: string, mimeType: string, base64: string) => void }
+    | undefined
+  if (bridge?.shareFile) {
+    bridge.shareFile(file.filename, file.mimeType, toBase64(file.content))
+    return
+  }
+
+  const url = URL.createObjectURL(new Blob([file.content], { type: `${file.mimeType};charset=utf-8` }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = file.filename
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
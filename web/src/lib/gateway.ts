@@ -1,15 +1,50 @@
+import { assignServerIds } from './reconcile'
+import { isSeedMessage } from './transcriptSeed'
+import { validate } from './validate'
+import {
+  EVENT_SCHEMAS,
+  RESULT_SCHEMAS,
+  eventFrame,
+  normalizeContent,
+  responseFrame,
+  sessionRow,
+  historyMessage,
+  type AgentEventPayload,
+  type ChatAttachment,
+  type ChatEventPayload,
+  type ChatHistoryParams,
+  type ChatSendParams,
+  type EventFrame,
+  type GatewayEvent,
+  type GatewayMethod,
+  type GatewayMethods,
+  type HistoryMessage,
+  type RequestFrame,
+  type SessionsPatchParams,
+} from './protocol'
+
 export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error'
 
 export interface MessageContent {
   type: 'text' | 'image'
   text?: string
   url?: string
+  /** Image stored on the device (messageDb attachments) — rendered via an object URL */
+  attachmentId?: string
 }
 
 export interface ChatMessage {
+  /** Server id when the gateway provides one, otherwise a `local_` client id */
+  id: string
   role: 'user' | 'assistant'
   content: MessageContent[]
   timestamp?: number
+  /** Partial reply finalized after the run was cut off by a reconnect */
+  interrupted?: boolean
+  /** Delivery state of an outgoing message; absent once chat.send succeeded */
+  status?: 'queued' | 'sending' | 'failed'
+  /** Key of the chat.send that produced it, on gateways that echo it in history */
+  idempotencyKey?: string
 }
 
 export interface AgentEvent {
@@ -17,22 +52,96 @@ export interface AgentEvent {
   data?: unknown
 }
 
+const AGENT_KINDS: ReadonlyArray<AgentEvent['kind']> = ['thinking', 'tool_use', 'done', 'error']
+
+function isAgentKind(kind: string | undefined): kind is AgentEvent['kind'] {
+  return AGENT_KINDS.includes(kind as AgentEvent['kind'])
+}
+
+// A newer gateway may add states; an unknown one must not be taken for a final
+const CHAT_STATES = ['delta', 'final', 'aborted', 'error']
+
 export interface SessionInfo {
   key: string
   label?: string
   displayName?: string
   lastActivity?: number
+  /** Only present when the gateway stores drawer organization itself */
+  pinned?: boolean
+  archived?: boolean
+  tags?: string[]
+  /** Per-session override; absent means the gateway's default model */
+  model?: string
+  modelProvider?: string
+  thinkingLevel?: string
+  /** Per-session instructions layered on the agent persona */
+  instructions?: string
+}
+
+/** A model the gateway can route a session to (models.list) */
+export interface ModelInfo {
+  id: string
+  name?: string
+  provider?: string
+  /** Accepts a thinking level */
+  reasoning?: boolean
+  contextWindow?: number
+}
+
+/** A chat run the client has started or seen deltas for, but no final yet */
+export interface ActiveRun {
+  sessionKey: string
+  runId?: string
+  startedAt: number
+}
+
+export interface HistoryPage {
+  /** true when this page was fetched with a cursor (scrolling up) */
+  older: boolean
+  hasMore: boolean
+  /** Pass back as `before` to fetch the next older page */
+  cursor?: string
 }
 
 export interface GatewayCallbacks {
   onConnectionChange: (state: ConnectionState) => void
-  onChatEvent: (sessionKey: string, state: 'delta' | 'final', content: MessageContent[]) => void
-  onAgentEvent: (sessionKey: string, event: AgentEvent) => void
-  onHistoryLoaded: (sessionKey: string, messages: ChatMessage[]) => void
+  onChatEvent: (sessionKey: string, state: 'delta' | 'final', content: MessageContent[], messageId?: string, runId?: string) => void
+  onAgentEvent: (sessionKey: string, event: AgentEvent, runId?: string) => void
+  onHistoryLoaded: (sessionKey: string, messages: ChatMessage[], page: HistoryPage) => void
   onSessionsLoaded: (sessions: SessionInfo[]) => void
   onError: (error: string) => void
+  /** A frame or payload failed schema validation — diagnostic names the bad field */
+  onProtocolError: (diagnostic: string) => void
+}
+
+/** Gateway keys look like `agent:<agentId>:<key>` — the SPA uses the bare key */
+export function normalizeSessionKey(key: string): string {
+  const match = key.match(/^agent:[^:]+:(.+)$/)
+  return match ? match[1] : key
+}
+
+/**
+ * Request failure. `retryable` is true when the request may not have reached
+ * the gateway (not connected, timed out) — resending with the same
+ * idempotency key is safe. A rejection from the gateway itself is final.
+ */
+export class GatewayError extends Error {
+  retryable: boolean
+
+  constructor(message: string, retryable: boolean) {
+    super(message)
+    this.name = 'GatewayError'
+    this.retryable = retryable
+  }
+}
+
+export function createIdempotencyKey(): string {
+  return `msg_${Date.now()}_${Math.random().toString(36).slice(2)}`
 }
 
+/** Opens the transport — swapped for the in-browser fake in ?mock mode */
+export type SocketFactory = (url: string) => WebSocket
+
 interface PendingRequest {
   resolve: (response: unknown) => void
   reject: (error: Error) => void
@@ -50,11 +159,19 @@ export class GatewayClient {
   private requestId = 0
   private shouldReconnect = true
   private lastSessionKey = 'main'
-
-  constructor(callbacks: GatewayCallbacks, port = 3000, token = 'lilclaw-local') {
+  private activeRuns = new Map<string, ActiveRun>()
+  private createSocket: SocketFactory
+
+  constructor(
+    callbacks: GatewayCallbacks,
+    port = 3000,
+    token = 'lilclaw-local',
+    createSocket: SocketFactory = (url) => new WebSocket(url),
+  ) {
     this.callbacks = callbacks
     this.port = port
     this.token = token
+    this.createSocket = createSocket
   }
 
   updateConfig(port: number, token: string) {
@@ -73,7 +190,7 @@ export class GatewayClient {
     try {
       // Use same hostname as the page to work in both browser and Android WebView
       const wsHost = window.location.hostname || '127.0.0.1'
-      this.ws = new WebSocket(`ws://${wsHost}:${this.port}`)
+      this.ws = this.createSocket(`ws://${wsHost}:${this.port}`)
 
       this.ws.onopen = () => {
         this.reconnectAttempt = 0
@@ -124,93 +241,139 @@ export class GatewayClient {
   }
 
   private handleMessage(data: string) {
+    let msg: Record<string, unknown>
     try {
-      const msg = JSON.parse(data)
-      const type = msg.type || ''
+      msg = JSON.parse(data)
+    } catch {
+      this.callbacks.onError('Failed to parse message')
+      return
+    }
 
-      // Handle events: {"type": "event", "event": "...", "payload": {...}}
-      if (type === 'event' || msg.event) {
-        this.handleEvent(msg)
+    // Events: {"type": "event", "event": "...", "payload": {...}}
+    if (msg.type === 'event' || msg.event) {
+      const frame = validate(eventFrame, msg)
+      if (!frame.ok) {
+        this.reportMalformed('event frame', frame.error)
         return
       }
+      this.handleEvent(frame.value)
+      return
+    }
 
-      // Handle responses: {"type": "res", "id": "...", "ok": true, "payload": {...}}
-      if ((type === 'res' || msg.id) && this.pendingRequests.has(msg.id)) {
-        const pending = this.pendingRequests.get(msg.id)!
-        this.pendingRequests.delete(msg.id)
-
-        if (msg.ok) {
-          pending.resolve(msg.payload ?? msg.result)
-        } else {
-          const err = msg.error
-          const errMsg = typeof err === 'object' ? (err?.message || JSON.stringify(err)) : String(err || 'Request failed')
-          pending.reject(new Error(errMsg))
+    // Responses: {"type": "res", "id": "...", "ok": true, "payload": {...}}
+    if (msg.type === 'res' || msg.id) {
+      const frame = validate(responseFrame, msg)
+      if (!frame.ok) {
+        this.reportMalformed('response frame', frame.error)
+        // Settle the request now rather than leaving it to time out as retryable
+        const pending = typeof msg.id === 'string' ? this.pendingRequests.get(msg.id) : undefined
+        if (pending) {
+          this.pendingRequests.delete(msg.id as string)
+          pending.reject(new GatewayError('Malformed response frame', false))
         }
+        return
       }
-    } catch {
-      this.callbacks.onError('Failed to parse message')
+      const pending = this.pendingRequests.get(frame.value.id)
+      if (!pending) return
+      this.pendingRequests.delete(frame.value.id)
+
+      if (frame.value.ok) {
+        pending.resolve(frame.value.payload ?? frame.value.result)
+      } else {
+        const err = frame.value.error
+        const errMsg = typeof err === 'object' ? (err.message || JSON.stringify(err)) : String(err || 'Request failed')
+        pending.reject(new GatewayError(errMsg, false))
+      }
+      return
     }
+
+    this.reportMalformed('frame', `unrecognised frame (type: ${JSON.stringify(msg.type)})`)
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private handleEvent(msg: any) {
-    const event = msg.event || ''
-    const payload = msg.payload || msg.data || {}
+  private reportMalformed(what: string, diagnostic: string) {
+    this.callbacks.onProtocolError(`Malformed ${what}: ${diagnostic}`)
+  }
+
+  private handleEvent(frame: EventFrame) {
+    const name = frame.event
+    if (!(name in EVENT_SCHEMAS)) return // tick, presence, health… not used by the SPA
 
-    switch (event) {
+    const raw = frame.payload ?? frame.data ?? {}
+    const payload = validate(EVENT_SCHEMAS[name as GatewayEvent], raw, 'payload')
+    if (!payload.ok) {
+      this.reportMalformed(`"${name}" event`, payload.error)
+      return
+    }
+
+    switch (name as GatewayEvent) {
       case 'connect.challenge':
         this.sendConnectRequest()
         break
 
       case 'chat': {
-        // payload.state: "delta" | "final"
-        // payload.message: { role, content: [{type:"text", text:"..."}] }
-        const state = payload.state as 'delta' | 'final' | undefined
-        const message = payload.message
-        const content = message?.content || payload.content
-        const sessionKey = payload.sessionKey || this.lastSessionKey
-
-        if (content) {
-          // Normalize content to MessageContent[]
-          const normalized: MessageContent[] = Array.isArray(content)
-            ? content.map((c: any) => {
-                if (c.type === 'image_url' && c.image_url?.url) {
-                  return { type: 'image' as const, url: c.image_url.url }
-                }
-                return {
-                  type: (c.type === 'image_url' ? 'image' : c.type || 'text') as 'text' | 'image',
-                  text: c.text,
-                  url: c.url || c.image_url?.url,
-                }
-              })
-            : [{ type: 'text', text: String(content) }]
-
+        const chat = payload.value as ChatEventPayload
+        if (chat.state !== undefined && !CHAT_STATES.includes(chat.state)) break
+        const state = chat.state === 'delta' ? 'delta' : 'final'
+        const content = chat.message?.content ?? chat.content
+        const sessionKey = chat.sessionKey || this.lastSessionKey || 'main'
+        this.trackRun(sessionKey, state, chat.runId)
+
+        if (content !== undefined) {
           this.callbacks.onChatEvent(
-            sessionKey || 'main',
-            state || 'final',
-            normalized
+            sessionKey,
+            state,
+            normalizeContent(content),
+            chat.message?.id || chat.messageId,
+            chat.runId,
           )
         }
         break
       }
 
       case 'agent': {
-        const kind = payload.kind as 'thinking' | 'tool_use' | 'done' | 'error' | undefined
-        const sessionKey = payload.sessionKey || this.lastSessionKey
-        if (kind) {
-          this.callbacks.onAgentEvent(sessionKey || 'main', {
-            kind,
-            data: payload,
-          })
+        const agent = payload.value as AgentEventPayload
+        const sessionKey = agent.sessionKey || this.lastSessionKey || 'main'
+        if (agent.kind === 'done' || agent.kind === 'error') {
+          this.activeRuns.delete(normalizeSessionKey(sessionKey))
+        }
+        if (isAgentKind(agent.kind)) {
+          this.callbacks.onAgentEvent(sessionKey, {
+            kind: agent.kind,
+            data: raw,
+          }, agent.runId)
         }
         break
       }
     }
   }
 
+  private trackRun(rawSessionKey: string, state: 'delta' | 'final', runId?: string) {
+    const key = normalizeSessionKey(rawSessionKey)
+    if (state === 'final') {
+      this.activeRuns.delete(key)
+      return
+    }
+    const existing = this.activeRuns.get(key)
+    this.activeRuns.set(key, {
+      sessionKey: key,
+      runId: runId || existing?.runId,
+      startedAt: existing?.startedAt ?? Date.now(),
+    })
+  }
+
+  /** Runs that were still in flight — after a reconnect these need resuming */
+  getActiveRuns(): ActiveRun[] {
+    return [...this.activeRuns.values()]
+  }
+
+  /** Forget a run once the caller has finished or finalized it */
+  clearActiveRun(sessionKey: string) {
+    this.activeRuns.delete(normalizeSessionKey(sessionKey))
+  }
+
   private sendConnectRequest() {
     const version = (window as unknown as Record<string, string>).__LILCLAW_VERSION || '0.0.0'
-    this.sendRequest('connect', {
+    this.request('connect', {
       minProtocol: 3,
       maxProtocol: 3,
       client: {
@@ -233,36 +396,47 @@ export class GatewayClient {
     })
   }
 
-  private sendRequest(method: string, params: unknown): Promise<unknown> {
+  /** Typed request: params are checked at compile time, the result at runtime */
+  private async request<M extends GatewayMethod>(method: M, params: GatewayMethods[M]['params']): Promise<GatewayMethods[M]['result']> {
+    const raw = await this.sendRequest({ type: 'req', id: `req_${++this.requestId}`, method, params })
+    const result = validate(RESULT_SCHEMAS[method], raw, 'payload')
+    if (!result.ok) {
+      this.reportMalformed(`${method} response`, result.error)
+      throw new GatewayError(`Malformed ${method} response`, false)
+    }
+    return result.value
+  }
+
+  private sendRequest(frame: RequestFrame): Promise<unknown> {
     return new Promise((resolve, reject) => {
       if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-        reject(new Error('Not connected'))
+        reject(new GatewayError('Not connected', true))
         return
       }
 
-      const id = `req_${++this.requestId}`
+      const { id } = frame
       this.pendingRequests.set(id, { resolve, reject })
 
-      this.ws.send(JSON.stringify({
-        type: 'req',
-        id,
-        method,
-        params,
-      }))
+      this.ws.send(JSON.stringify(frame))
 
       setTimeout(() => {
         if (this.pendingRequests.has(id)) {
           this.pendingRequests.delete(id)
-          reject(new Error('Request timeout'))
+          reject(new GatewayError('Request timeout', true))
         }
       }, 30000)
     })
   }
 
-  async sendMessage(sessionKey: string, message: string, attachments?: Array<{mimeType: string; content: string}>): Promise<void> {
+  /** Resolves with the run id when the gateway reports one */
+  async sendMessage(
+    sessionKey: string,
+    message: string,
+    attachments?: ChatAttachment[],
+    idempotencyKey = createIdempotencyKey(),
+  ): Promise<string | undefined> {
     this.lastSessionKey = sessionKey
-    const idempotencyKey = `msg_${Date.now()}_${Math.random().toString(36).slice(2)}`
-    const params: Record<string, unknown> = {
+    const params: ChatSendParams = {
       sessionKey,
       message,
       idempotencyKey,
@@ -270,38 +444,40 @@ export class GatewayClient {
     if (attachments && attachments.length > 0) {
       params.attachments = attachments
     }
-    await this.sendRequest('chat.send', params)
+    const key = normalizeSessionKey(sessionKey)
+    this.activeRuns.set(key, { sessionKey: key, startedAt: Date.now() })
+    try {
+      const result = await this.request('chat.send', params)
+      const run = this.activeRuns.get(key)
+      if (run && result?.runId) run.runId = result.runId
+      return result?.runId
+    } catch (err) {
+      this.activeRuns.delete(key)
+      throw err
+    }
   }
 
-  async loadHistory(sessionKey: string, limit = 50): Promise<void> {
-    this.lastSessionKey = sessionKey
-    const result = await this.sendRequest('chat.history', {
-      sessionKey,
-      limit,
-    }) as { messages?: Array<{ role: string; content: unknown }> } | undefined
+  /** `background`: a session the user hasn't opened — events without a sessionKey keep their route */
+  async loadHistory(sessionKey: string, options: { limit?: number; before?: string; background?: boolean } = {}): Promise<void> {
+    const limit = options.limit ?? 50
+    if (!options.before && !options.background) this.lastSessionKey = sessionKey
+    const params: ChatHistoryParams = { sessionKey, limit }
+    if (options.before) {
+      params.before = options.before
+    }
+    const result = await this.request('chat.history', params)
 
     if (result?.messages) {
-      const parsed: ChatMessage[] = result.messages
+      const rows: HistoryMessage[] = []
+      result.messages.forEach((raw, i) => {
+        const row = validate(historyMessage, raw, `payload.messages[${i}]`)
+        if (row.ok) rows.push(row.value)
+        else this.reportMalformed('chat.history message', row.error)
+      })
+      const parsed = rows
         .filter((m) => m.role === 'user' || m.role === 'assistant')
         .map((m) => {
-          // Normalize content - could be string or [{type,text}]
-          let content: MessageContent[]
-          if (Array.isArray(m.content)) {
-            content = m.content.map((c: any) => {
-              if (c.type === 'image_url' && c.image_url?.url) {
-                return { type: 'image' as const, url: c.image_url.url }
-              }
-              return {
-                type: (c.type === 'image_url' ? 'image' : c.type || 'text') as 'text' | 'image',
-                text: c.text,
-                url: c.url || c.image_url?.url,
-              }
-            })
-          } else if (typeof m.content === 'string') {
-            content = [{ type: 'text', text: m.content }]
-          } else {
-            content = [{ type: 'text', text: String(m.content || '') }]
-          }
+          let content = normalizeContent(m.content)
 
           // Strip gateway metadata from user messages
           // Format: "Conversation info (untrusted metadata):\n{...json...}\n[timestamp] actual message"
@@ -320,35 +496,69 @@ export class GatewayClient {
           }
 
           return {
+            id: m.id,
             role: m.role as 'user' | 'assistant',
             content,
+            timestamp: m.timestamp,
+            idempotencyKey: m.idempotencyKey,
           }
         })
         .filter((m) => m.content.length > 0) // Remove messages that became empty after stripping
 
-      // Filter out heartbeat exchanges and silent replies (system noise, not user conversation)
+      // Filter out heartbeat exchanges, context seeds and silent replies (system noise, not user conversation)
       const filtered = parsed.filter((m) => {
         const text = m.content.map((c) => c.text || '').join(' ')
         if (m.role === 'user' && /HEARTBEAT\.md|heartbeat prompt/i.test(text)) return false
+        if (m.role === 'user' && isSeedMessage(text)) return false
         if (m.role === 'assistant' && /^\s*(HEARTBEAT_OK|NO_REPLY)\s*$/.test(text)) return false
         return true
       })
-      this.callbacks.onHistoryLoaded(sessionKey, filtered)
+
+      // Cursor for the next older page: the gateway's own cursor, or the id of
+      // the oldest message it returned
+      const cursor = result.nextCursor || rows[0]?.id
+      const hasMore = !!cursor && (result.hasMore ?? result.messages.length >= limit)
+
+      this.callbacks.onHistoryLoaded(sessionKey, assignServerIds(filtered), {
+        older: !!options.before,
+        hasMore,
+        cursor: hasMore ? cursor : undefined,
+      })
     }
   }
 
   async abortChat(sessionKey: string): Promise<void> {
-    await this.sendRequest('chat.abort', { sessionKey })
+    const runId = this.activeRuns.get(normalizeSessionKey(sessionKey))?.runId
+    await this.request('chat.abort', runId ? { sessionKey, runId } : { sessionKey })
+    this.activeRuns.delete(normalizeSessionKey(sessionKey))
   }
 
   async listSessions(): Promise<void> {
-    const result = await this.sendRequest('sessions.list', {}) as { sessions?: SessionInfo[] } | undefined
-    if (result?.sessions) {
-      this.callbacks.onSessionsLoaded(result.sessions)
-    }
+    const result = await this.request('sessions.list', {})
+    if (!result?.sessions) return
+    const sessions: SessionInfo[] = []
+    result.sessions.forEach((raw, i) => {
+      const row = validate(sessionRow, raw, `payload.sessions[${i}]`)
+      if (row.ok) sessions.push(row.value)
+      else this.reportMalformed('sessions.list row', row.error)
+    })
+    this.callbacks.onSessionsLoaded(sessions)
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const result = await this.request('models.list', {})
+    return result?.models ?? []
+  }
+
+  async patchSession(key: string, patch: Omit<SessionsPatchParams, 'key'>): Promise<void> {
+    await this.request('sessions.patch', { key, ...patch })
+  }
+
+  async resetSession(key: string): Promise<void> {
+    await this.request('sessions.reset', { key })
   }
 
-  async patchSession(key: string, patch: { label?: string }): Promise<void> {
-    await this.sendRequest('sessions.patch', { key, ...patch })
+  async compactSession(key: string): Promise<void> {
+    await this.request('sessions.compact', { key })
   }
 }
@@ -0,0 +1,146 @@
+/**
+ * Reading the JSON export back in: validation, collision detection and the
+ * per-session plan the import dialog lets the user adjust.
+ */
+
+import {
+  array,
+  boolean,
+  exact,
+  literal,
+  nullable,
+  number,
+  optional,
+  string,
+  union,
+  validate,
+  type Infer,
+  type Result,
+} from './validate'
+import { EXPORT_FORMAT, EXPORT_VERSION, type ExportedSession } from './exporter'
+
+// Every level is `exact`: a file from elsewhere only brings the fields listed
+// here into the store — no delivery state, device attachment ids or unknown keys
+const messageSchema = exact({
+  id: string(),
+  role: literal('user', 'assistant'),
+  content: array(union(
+    exact({ type: literal('text'), text: optional(string()) }),
+    exact({ type: literal('image'), url: string() }),
+  )),
+  timestamp: optional(number()),
+  interrupted: optional(boolean()),
+})
+
+const branchSchema = exact({
+  id: string(),
+  parentId: nullable(string()),
+  variants: array(array(messageSchema)),
+  active: number(),
+})
+
+// Drawer organization and lineage; clearedAt and label are this device's business
+const metaSchema = exact({
+  parentKey: optional(string()),
+  pinned: optional(boolean()),
+  archived: optional(boolean()),
+  tags: optional(array(string())),
+})
+
+const exportFileSchema = exact({
+  format: literal(EXPORT_FORMAT),
+  version: number(),
+  exportedAt: optional(number()),
+  sessions: array(exact({
+    key: string(),
+    label: optional(string()),
+    messages: array(messageSchema),
+    branches: optional(array(branchSchema)),
+    meta: optional(metaSchema),
+  })),
+})
+
+export type ImportFile = Infer<typeof exportFileSchema>
+
+/**
+ * What to do with a session whose key already exists on this device. Imports
+ * always land under a key of their own; `overwrite` also deletes the copy
+ * here, and is only offered when that copy exists only on this device.
+ */
+export type CollisionChoice = 'rename' | 'overwrite' | 'skip'
+
+export interface ImportItem {
+  session: ExportedSession
+  collides: boolean
+  /** The session it collides with exists only on this device, so overwriting it is safe */
+  replaceable: boolean
+  choice: CollisionChoice
+  /** Key the session will be stored under */
+  targetKey: string
+}
+
+/** Parse and validate an export file; the error is user-facing */
+export function parseExportFile(text: string): Result<ImportFile> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return { ok: false, error: '不是有效的 JSON 文件' }
+  }
+  const result = validate(exportFileSchema, raw)
+  if (!result.ok) {
+    const format = (raw as { format?: unknown } | null)?.format
+    return { ok: false, error: format === EXPORT_FORMAT ? `文件内容有误：${result.error}` : '不是 LilClaw 导出的对话文件' }
+  }
+  if (result.value.version > EXPORT_VERSION) {
+    return { ok: false, error: '文件来自更新版本的 LilClaw，请先升级' }
+  }
+  return result
+}
+
+// Imports never reuse a key: an existing gateway session must not take in
+// another device's transcript, labels or replayed seed
+function importKey(index: number, taken: ReadonlySet<string>): string {
+  const stamp = Date.now().toString(36)
+  let candidate = `import-${stamp}-${index}`
+  for (let n = 2; taken.has(candidate); n++) candidate = `import-${stamp}-${index}-${n}`
+  return candidate
+}
+
+/**
+ * Initial plan: every session gets a fresh key, and colliding ones are kept
+ * side by side with the copy already here. `localOnlyKeys` are the existing
+ * sessions the gateway doesn't know, which may be overwritten.
+ */
+export function planImport(file: ImportFile, existingKeys: ReadonlySet<string>, localOnlyKeys: ReadonlySet<string>): ImportItem[] {
+  const taken = new Set(existingKeys)
+  const targetKeys = file.sessions.map((_, i) => {
+    const key = importKey(i, taken)
+    taken.add(key)
+    return key
+  })
+  // Forks point at their parent's new key, or nowhere if it isn't in the file
+  const renamed = new Map(file.sessions.map((s, i) => [s.key, targetKeys[i]]))
+  return file.sessions.map((s, i) => {
+    const parentKey = s.meta?.parentKey !== undefined ? renamed.get(s.meta.parentKey) : undefined
+    const session: ExportedSession = {
+      ...s,
+      meta: s.meta ? { ...s.meta, parentKey } : undefined,
+    }
+    return {
+      session,
+      collides: existingKeys.has(s.key),
+      replaceable: localOnlyKeys.has(s.key),
+      choice: 'rename',
+      targetKey: targetKeys[i],
+    }
+  })
+}
+
+/** Change what happens to a colliding item; overwriting is refused for sessions the gateway has */
+export function withChoice(items: ImportItem[], index: number, choice: CollisionChoice): ImportItem[] {
+  return items.map((it, i) => {
+    if (i !== index || (choice === 'overwrite' && !it.replaceable)) return it
+    return { ...it, choice }
+  })
+}
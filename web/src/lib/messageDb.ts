@@ -1,21 +1,166 @@
 /**
  * Lightweight IndexedDB wrapper for offline message persistence.
  * Zero dependencies — promisified native IndexedDB API.
+ *
+ * The schema is versioned: MIGRATIONS[n] takes a database from version n to
+ * n + 1, and an upgrade runs every step between the stored and current
+ * version inside the one versionchange transaction.
  */
 
 import type { ChatMessage } from './gateway'
+import type { ChatAttachment } from './protocol'
+import type { BranchPoint } from './branches'
+import { createClientId, ensureMessageIds } from './reconcile'
+import { dataUrlToBlob, isDataUrl } from './dataUrl'
+import { MOCK_MODE } from './mockGateway'
 
-const DB_NAME = 'lilclaw-messages'
-const DB_VERSION = 1
-const STORE_NAME = 'messages'
+// ?mock demos get a database of their own, emptied on every page load, so they
+// start clean and never touch the real conversations
+const DB_NAME = MOCK_MODE ? 'lilclaw-messages-mock' : 'lilclaw-messages'
+if (MOCK_MODE) indexedDB.deleteDatabase(DB_NAME)
+
+// v1: whole ChatMessage[] per session, keyed by session key. Folded into
+// RECORD_STORE by the v2 migration and then dropped.
+const LEGACY_MESSAGE_STORE = 'messages'
+
+// One record per message, keyed by [sessionKey, id]
+const RECORD_STORE = 'records'
+// Transcript order within a session
+const BY_SESSION_INDEX = 'bySession'
+// Time-ordered reads within a session; messages without a timestamp aren't in it
+const BY_TIME_INDEX = 'byTime'
+
+// Per-session pagination state (history cursor), keyed by session key
+const META_STORE = 'meta'
+
+// Messages waiting for chat.send to succeed, keyed by message id
+const OUTBOX_STORE = 'outbox'
+
+// Alternate conversation tails (edited / regenerated turns), keyed by session key
+const BRANCH_STORE = 'branches'
+
+// Image bytes referenced by MessageContent.attachmentId, keyed by id
+const ATTACHMENT_STORE = 'attachments'
+
+// Half-written composer contents, keyed by session key
+const DRAFT_STORE = 'drafts'
+
+export type OutboxStatus = 'queued' | 'sending' | 'failed'
+
+export interface OutboxEntry {
+  messageId: string
+  sessionKey: string
+  message: string
+  attachments?: ChatAttachment[]
+  /** Generated once per message and reused on every retry so the gateway can dedupe */
+  idempotencyKey: string
+  status: OutboxStatus
+  attempts: number
+  createdAt: number
+}
+
+/** What the composer held when the user left a session */
+export interface ComposerDraft {
+  text: string
+  /** Staged image, as base64 — the composer sends it as-is */
+  image?: ChatAttachment
+  /** Active action card, and its form as filled so far */
+  actionId?: string
+  fieldValues?: Record<string, string>
+  updatedAt: number
+}
+
+export interface HistoryMeta {
+  hasMore: boolean
+  cursor?: string
+}
+
+export interface StoredAttachment {
+  id: string
+  mimeType: string
+  blob: Blob
+  /** Downscaled JPEG, generated the first time it's asked for */
+  thumbnail?: Blob
+  createdAt: number
+}
+
+interface MessageRecord {
+  sessionKey: string
+  id: string
+  /** Position in the transcript */
+  seq: number
+  timestamp?: number
+  message: ChatMessage
+}
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void
+
+/** Deterministic id for an image that arrived inline, so re-extracting it is idempotent */
+export function inlineImageId(messageId: string, index: number): string {
+  return `${messageId}#${index}`
+}
+
+// Move the inline base64 images of one message into the attachment store
+function moveInlineImages(message: ChatMessage, attachments: IDBObjectStore): ChatMessage {
+  if (!message.content.some((c) => c.type === 'image' && isDataUrl(c.url))) return message
+  return {
+    ...message,
+    content: message.content.map((c, i) => {
+      const blob = c.type === 'image' && isDataUrl(c.url) ? dataUrlToBlob(c.url) : null
+      if (!blob) return c
+      const id = inlineImageId(message.id, i)
+      attachments.put({ id, mimeType: blob.type, blob, createdAt: message.timestamp ?? Date.now() } satisfies StoredAttachment)
+      return { type: 'image' as const, attachmentId: id }
+    }),
+  }
+}
+
+// Create the per-message schema and copy every v1 session array into it —
+// inline images move to the attachment store — then drop the old store
+const migrateToMessageRecords: Migration = (db, tx) => {
+  const records = db.createObjectStore(RECORD_STORE, { keyPath: ['sessionKey', 'id'] })
+  records.createIndex(BY_SESSION_INDEX, ['sessionKey', 'seq'])
+  records.createIndex(BY_TIME_INDEX, ['sessionKey', 'timestamp'])
+  const attachments = db.createObjectStore(ATTACHMENT_STORE, { keyPath: 'id' })
+  db.createObjectStore(META_STORE)
+  db.createObjectStore(OUTBOX_STORE, { keyPath: 'messageId' })
+  db.createObjectStore(BRANCH_STORE)
+  db.createObjectStore(DRAFT_STORE)
+
+  const cursorReq = tx.objectStore(LEGACY_MESSAGE_STORE).openCursor()
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result
+    if (!cursor) {
+      db.deleteObjectStore(LEGACY_MESSAGE_STORE)
+      return
+    }
+    const sessionKey = cursor.key as string
+    // The oldest caches have messages without ids, and a duplicate id would
+    // overwrite its twin — the record key needs one unique id per message
+    const seen = new Set<string>()
+    ensureMessageIds(cursor.value as ChatMessage[]).forEach((message, seq) => {
+      const unique = seen.has(message.id) ? { ...message, id: createClientId() } : message
+      seen.add(unique.id)
+      records.put(toRecord(sessionKey, moveInlineImages(unique, attachments), seq))
+    })
+    cursor.continue()
+  }
+}
+
+const MIGRATIONS: Migration[] = [
+  (db) => db.createObjectStore(LEGACY_MESSAGE_STORE),
+  migrateToMessageRecords,
+]
+
+const DB_VERSION = MIGRATIONS.length
 
 function openDb(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
     const req = indexedDB.open(DB_NAME, DB_VERSION)
-    req.onupgradeneeded = () => {
-      const db = req.result
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME)
+    req.onupgradeneeded = (event) => {
+      const tx = req.transaction!
+      for (let v = event.oldVersion; v < DB_VERSION; v++) {
+        MIGRATIONS[v](req.result, tx)
       }
     }
     req.onsuccess = () => resolve(req.result)
@@ -23,26 +168,310 @@ function openDb(): Promise<IDBDatabase> {
   })
 }
 
+function toRecord(sessionKey: string, message: ChatMessage, seq: number): MessageRecord {
+  return { sessionKey, id: message.id, seq, timestamp: message.timestamp, message }
+}
+
+// All of one session's records, by primary key ([sessionKey, id]); arrays sort after strings
+function sessionRange(sessionKey: string): IDBKeyRange {
+  return IDBKeyRange.bound([sessionKey], [sessionKey, []])
+}
+
+// Compound index range covering one session, whatever the second key part
+function indexRange(sessionKey: string): IDBKeyRange {
+  return IDBKeyRange.bound([sessionKey, -Infinity], [sessionKey, Infinity])
+}
+
+// What the store holds of each session, as last written or read on this page.
+// Memory only ever has the newest part of a transcript: `base` is the seq of
+// the first message it holds, and records before it are left alone on save.
+// The store updates messages immutably, so an unchanged object reference means
+// an unchanged record and saves only touch what moved.
+interface LoadedWindow {
+  base: number
+  records: Map<string, { message: ChatMessage; seq: number }>
+}
+
+const written = new Map<string, LoadedWindow>()
+
+// Lowest seq read into memory per session — older pages start below it
+const readFrom = new Map<string, number>()
+
+function remember(sessionKey: string, records: MessageRecord[]) {
+  written.set(sessionKey, {
+    base: records[0]?.seq ?? 0,
+    records: new Map(records.map((r) => [r.id, { message: r.message, seq: r.seq }])),
+  })
+  if (records.length > 0) readFrom.set(sessionKey, records[0].seq)
+}
+
+function forget(sessionKey: string) {
+  written.delete(sessionKey)
+  readFrom.delete(sessionKey)
+}
+
+// Writes refused for lack of space are reported here so the store can evict
+let quotaExceededHandler: (() => void) | null = null
+
+export function onQuotaExceeded(handler: () => void) {
+  quotaExceededHandler = handler
+}
+
+function reportQuota(error: DOMException | null | undefined) {
+  if (error?.name === 'QuotaExceededError') quotaExceededHandler?.()
+}
+
+function requestResult<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+/**
+ * Write the part of a transcript the store holds. Records older than what it
+ * loaded stay on disk untouched; within the loaded part, messages no longer
+ * in the list are deleted.
+ */
 export async function saveMessages(sessionKey: string, messages: ChatMessage[]): Promise<void> {
   try {
     const db = await openDb()
-    const tx = db.transaction(STORE_NAME, 'readwrite')
-    tx.objectStore(STORE_NAME).put(messages, sessionKey)
+    let loaded = written.get(sessionKey)
+    if (!loaded) {
+      // Nothing read or written yet this page: whatever is on disk came before this list
+      const lastTx = db.transaction(RECORD_STORE, 'readonly')
+      const last = await newestRecords(lastTx.objectStore(RECORD_STORE).index(BY_SESSION_INDEX), indexRange(sessionKey), 1)
+      loaded = { base: last.length > 0 ? last[0].seq + 1 : 0, records: new Map() }
+    }
+    const { base, records: previous } = loaded
+
+    const tx = db.transaction(RECORD_STORE, 'readwrite')
+    const store = tx.objectStore(RECORD_STORE)
+    const ids = new Set<string>()
+    const next = new Map<string, { message: ChatMessage; seq: number }>()
+    messages.forEach((message, i) => {
+      const seq = base + i
+      ids.add(message.id)
+      next.set(message.id, { message, seq })
+      const prev = previous.get(message.id)
+      // Inserting near the top shifts every later seq, so those rows are rewritten too
+      if (!prev || prev.message !== message || prev.seq !== seq) {
+        store.put(toRecord(sessionKey, message, seq))
+      }
+    })
+    for (const id of previous.keys()) {
+      if (!ids.has(id)) store.delete([sessionKey, id])
+    }
+
+    written.set(sessionKey, { base, records: next })
+    // A failed write leaves the disk state unknown — diff from scratch next time
+    tx.onerror = tx.onabort = () => {
+      written.delete(sessionKey)
+      reportQuota(tx.error)
+    }
     db.close()
   } catch {
+    written.delete(sessionKey)
     // Silent fail — offline cache is best-effort
   }
 }
 
+// Up to `limit` records of a transcript-order range, newest first
+function newestRecords(index: IDBIndex, range: IDBKeyRange, limit: number): Promise<MessageRecord[]> {
+  return new Promise((resolve, reject) => {
+    const result: MessageRecord[] = []
+    const cursorReq = index.openCursor(range, 'prev')
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result
+      if (cursor && result.length < limit) {
+        result.push(cursor.value as MessageRecord)
+        cursor.continue()
+      } else {
+        resolve(result)
+      }
+    }
+    cursorReq.onerror = () => reject(cursorReq.error)
+  })
+}
+
+export interface CachedPage {
+  messages: ChatMessage[]
+  /** The cache goes further back than this page */
+  hasEarlier: boolean
+}
+
+/** The newest `limit` messages of a session, oldest first; the store holds these from now on */
+export async function loadRecentMessages(sessionKey: string, limit: number): Promise<CachedPage> {
+  try {
+    const db = await openDb()
+    const tx = db.transaction(RECORD_STORE, 'readonly')
+    const newest = await newestRecords(tx.objectStore(RECORD_STORE).index(BY_SESSION_INDEX), indexRange(sessionKey), limit + 1)
+    db.close()
+    const records = newest.slice(0, limit).reverse()
+    remember(sessionKey, records)
+    return { messages: records.map((r) => r.message), hasEarlier: newest.length > limit }
+  } catch {
+    return { messages: [], hasEarlier: false }
+  }
+}
+
+/** The `limit` messages before everything read so far this page, oldest first */
+export async function loadEarlierMessages(sessionKey: string, limit: number): Promise<CachedPage> {
+  const before = readFrom.get(sessionKey)
+  if (before === undefined) return { messages: [], hasEarlier: false }
+  try {
+    const db = await openDb()
+    const tx = db.transaction(RECORD_STORE, 'readonly')
+    const range = IDBKeyRange.bound([sessionKey, -Infinity], [sessionKey, before], false, true)
+    const newest = await newestRecords(tx.objectStore(RECORD_STORE).index(BY_SESSION_INDEX), range, limit + 1)
+    db.close()
+    const records = newest.slice(0, limit).reverse()
+    // Saves pick these up as the store prepends them — no need to touch `written`
+    if (records.length > 0) readFrom.set(sessionKey, records[0].seq)
+    return { messages: records.map((r) => r.message), hasEarlier: newest.length > limit }
+  } catch {
+    return { messages: [], hasEarlier: false }
+  }
+}
+
+/** The last message of every cached session but `except` — enough for the drawer */
+export async function loadSessionPreviews(except: string): Promise<Record<string, ChatMessage[]>> {
+  try {
+    const db = await openDb()
+    return await new Promise((resolve, reject) => {
+      const tx = db.transaction(RECORD_STORE, 'readonly')
+      const result: Record<string, ChatMessage[]> = {}
+      // Newest first, jumping from each session's last record to the one before it
+      const cursorReq = tx.objectStore(RECORD_STORE).index(BY_SESSION_INDEX).openCursor(null, 'prev')
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result
+        if (!cursor) {
+          db.close()
+          resolve(result)
+          return
+        }
+        const record = cursor.value as MessageRecord
+        if (record.sessionKey !== except) {
+          result[record.sessionKey] = [record.message]
+          remember(record.sessionKey, [record])
+        }
+        cursor.continue([record.sessionKey, -Infinity])
+      }
+      cursorReq.onerror = () => {
+        db.close()
+        reject(cursorReq.error)
+      }
+    })
+  } catch {
+    return {}
+  }
+}
+
+/** A whole cached transcript, read-only — for export */
 export async function loadMessages(sessionKey: string): Promise<ChatMessage[]> {
+  try {
+    const db = await openDb()
+    const tx = db.transaction(RECORD_STORE, 'readonly')
+    const index = tx.objectStore(RECORD_STORE).index(BY_SESSION_INDEX)
+    const records = await requestResult(index.getAll(indexRange(sessionKey)) as IDBRequest<MessageRecord[]>)
+    db.close()
+    return records.map((r) => r.message)
+  } catch {
+    return []
+  }
+}
+
+/** Every cached transcript, read-only — for search, export and storage upkeep */
+export async function loadAllMessages(): Promise<Record<string, ChatMessage[]>> {
+  try {
+    const db = await openDb()
+    const tx = db.transaction(RECORD_STORE, 'readonly')
+    const index = tx.objectStore(RECORD_STORE).index(BY_SESSION_INDEX)
+    // Index order is [sessionKey, seq], so each session comes out in transcript order
+    const records = await requestResult(index.getAll() as IDBRequest<MessageRecord[]>)
+    db.close()
+    const result: Record<string, ChatMessage[]> = {}
+    for (const r of records) {
+      (result[r.sessionKey] ??= []).push(r.message)
+    }
+    return result
+  } catch {
+    return {}
+  }
+}
+
+export async function saveHistoryMeta(sessionKey: string, meta: HistoryMeta): Promise<void> {
+  try {
+    const db = await openDb()
+    const tx = db.transaction(META_STORE, 'readwrite')
+    tx.objectStore(META_STORE).put(meta, sessionKey)
+    db.close()
+  } catch {
+    // Silent fail — offline cache is best-effort
+  }
+}
+
+export async function loadAllHistoryMeta(): Promise<Record<string, HistoryMeta>> {
+  try {
+    const db = await openDb()
+    return new Promise((resolve) => {
+      const tx = db.transaction(META_STORE, 'readonly')
+      const store = tx.objectStore(META_STORE)
+      const result: Record<string, HistoryMeta> = {}
+
+      const cursorReq = store.openCursor()
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result
+        if (cursor) {
+          result[cursor.key as string] = cursor.value
+          cursor.continue()
+        } else {
+          db.close()
+          resolve(result)
+        }
+      }
+      cursorReq.onerror = () => {
+        db.close()
+        resolve({})
+      }
+    })
+  } catch {
+    return {}
+  }
+}
+
+export async function putOutboxEntry(entry: OutboxEntry): Promise<void> {
+  try {
+    const db = await openDb()
+    const tx = db.transaction(OUTBOX_STORE, 'readwrite')
+    tx.objectStore(OUTBOX_STORE).put(entry)
+    db.close()
+  } catch {
+    // Silent fail — the in-memory queue still works for this page load
+  }
+}
+
+export async function deleteOutboxEntry(messageId: string): Promise<void> {
+  try {
+    const db = await openDb()
+    const tx = db.transaction(OUTBOX_STORE, 'readwrite')
+    tx.objectStore(OUTBOX_STORE).delete(messageId)
+    db.close()
+  } catch {
+    // Silent fail
+  }
+}
+
+export async function loadOutbox(): Promise<OutboxEntry[]> {
   try {
     const db = await openDb()
     return new Promise((resolve) => {
-      const tx = db.transaction(STORE_NAME, 'readonly')
-      const req = tx.objectStore(STORE_NAME).get(sessionKey)
+      const tx = db.transaction(OUTBOX_STORE, 'readonly')
+      const req = tx.objectStore(OUTBOX_STORE).getAll()
       req.onsuccess = () => {
         db.close()
-        resolve(req.result || [])
+        const entries = (req.result as OutboxEntry[]).sort((a, b) => a.createdAt - b.createdAt)
+        resolve(entries)
       }
       req.onerror = () => {
         db.close()
@@ -54,13 +483,24 @@ export async function loadMessages(sessionKey: string): Promise<ChatMessage[]> {
   }
 }
 
-export async function loadAllMessages(): Promise<Record<string, ChatMessage[]>> {
+export async function saveBranches(sessionKey: string, points: BranchPoint[]): Promise<void> {
+  try {
+    const db = await openDb()
+    const tx = db.transaction(BRANCH_STORE, 'readwrite')
+    tx.objectStore(BRANCH_STORE).put(points, sessionKey)
+    db.close()
+  } catch {
+    // Silent fail — offline cache is best-effort
+  }
+}
+
+export async function loadAllBranches(): Promise<Record<string, BranchPoint[]>> {
   try {
     const db = await openDb()
     return new Promise((resolve) => {
-      const tx = db.transaction(STORE_NAME, 'readonly')
-      const store = tx.objectStore(STORE_NAME)
-      const result: Record<string, ChatMessage[]> = {}
+      const tx = db.transaction(BRANCH_STORE, 'readonly')
+      const store = tx.objectStore(BRANCH_STORE)
+      const result: Record<string, BranchPoint[]> = {}
 
       const cursorReq = store.openCursor()
       cursorReq.onsuccess = () => {
@@ -83,13 +523,190 @@ export async function loadAllMessages(): Promise<Record<string, ChatMessage[]>>
   }
 }
 
+/** Drop a session's cached transcript and cursor but keep its branches — history reloads from the gateway */
+export async function deleteCachedMessages(sessionKey: string): Promise<void> {
+  try {
+    const db = await openDb()
+    const tx = db.transaction([RECORD_STORE, META_STORE], 'readwrite')
+    tx.objectStore(RECORD_STORE).delete(sessionRange(sessionKey))
+    tx.objectStore(META_STORE).delete(sessionKey)
+    forget(sessionKey)
+    db.close()
+  } catch {
+    // Silent fail
+  }
+}
+
 export async function deleteSessionMessages(sessionKey: string): Promise<void> {
   try {
     const db = await openDb()
-    const tx = db.transaction(STORE_NAME, 'readwrite')
-    tx.objectStore(STORE_NAME).delete(sessionKey)
+    const tx = db.transaction([RECORD_STORE, META_STORE, BRANCH_STORE], 'readwrite')
+    tx.objectStore(RECORD_STORE).delete(sessionRange(sessionKey))
+    tx.objectStore(META_STORE).delete(sessionKey)
+    tx.objectStore(BRANCH_STORE).delete(sessionKey)
+    forget(sessionKey)
+    db.close()
+  } catch {
+    // Silent fail
+  }
+}
+
+export async function saveDraft(sessionKey: string, draft: ComposerDraft | undefined): Promise<void> {
+  try {
+    const db = await openDb()
+    const tx = db.transaction(DRAFT_STORE, 'readwrite')
+    if (draft) tx.objectStore(DRAFT_STORE).put(draft, sessionKey)
+    else tx.objectStore(DRAFT_STORE).delete(sessionKey)
+    db.close()
+  } catch {
+    // Silent fail — a lost draft is only an inconvenience
+  }
+}
+
+export async function loadAllDrafts(): Promise<Record<string, ComposerDraft>> {
+  try {
+    const db = await openDb()
+    return new Promise((resolve) => {
+      const result: Record<string, ComposerDraft> = {}
+      const cursorReq = db.transaction(DRAFT_STORE, 'readonly').objectStore(DRAFT_STORE).openCursor()
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result
+        if (cursor) {
+          result[cursor.key as string] = cursor.value
+          cursor.continue()
+        } else {
+          db.close()
+          resolve(result)
+        }
+      }
+      cursorReq.onerror = () => {
+        db.close()
+        resolve({})
+      }
+    })
+  } catch {
+    return {}
+  }
+}
+
+/** True once the write has landed */
+export async function putAttachment(attachment: StoredAttachment): Promise<boolean> {
+  try {
+    const db = await openDb()
+    const tx = db.transaction(ATTACHMENT_STORE, 'readwrite')
+    tx.objectStore(ATTACHMENT_STORE).put(attachment)
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve()
+      tx.onerror = tx.onabort = () => reject(tx.error)
+    })
+    db.close()
+    return true
+  } catch (err) {
+    reportQuota(err as DOMException | null)
+    // Otherwise silent — the in-memory copy still renders for this page load
+    return false
+  }
+}
+
+export async function getAttachment(id: string): Promise<StoredAttachment | undefined> {
+  try {
+    const db = await openDb()
+    const tx = db.transaction(ATTACHMENT_STORE, 'readonly')
+    const result = await requestResult(tx.objectStore(ATTACHMENT_STORE).get(id) as IDBRequest<StoredAttachment | undefined>)
+    db.close()
+    return result
+  } catch {
+    return undefined
+  }
+}
+
+export interface AttachmentInfo {
+  id: string
+  /** Bytes, thumbnail included */
+  size: number
+  createdAt: number
+}
+
+export async function loadAttachmentInfo(): Promise<AttachmentInfo[]> {
+  try {
+    const db = await openDb()
+    return new Promise((resolve) => {
+      const tx = db.transaction(ATTACHMENT_STORE, 'readonly')
+      const result: AttachmentInfo[] = []
+
+      const cursorReq = tx.objectStore(ATTACHMENT_STORE).openCursor()
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result
+        if (cursor) {
+          const a = cursor.value as StoredAttachment
+          result.push({ id: a.id, size: a.blob.size + (a.thumbnail?.size ?? 0), createdAt: a.createdAt })
+          cursor.continue()
+        } else {
+          db.close()
+          resolve(result)
+        }
+      }
+      cursorReq.onerror = () => {
+        db.close()
+        resolve([])
+      }
+    })
+  } catch {
+    return []
+  }
+}
+
+export async function deleteAttachments(ids: string[]): Promise<void> {
+  try {
+    const db = await openDb()
+    const tx = db.transaction(ATTACHMENT_STORE, 'readwrite')
+    const store = tx.objectStore(ATTACHMENT_STORE)
+    ids.forEach((id) => store.delete(id))
     db.close()
   } catch {
     // Silent fail
   }
 }
+
+/**
+ * Drop every attachment not in `keep` and not shown by a cached message;
+ * returns the ids removed. The store only holds part of each transcript, so
+ * the records on disk are read here too.
+ */
+export async function deleteAttachmentsExcept(keep: ReadonlySet<string>): Promise<string[]> {
+  try {
+    const db = await openDb()
+    return new Promise((resolve) => {
+      const tx = db.transaction([ATTACHMENT_STORE, RECORD_STORE], 'readwrite')
+      const store = tx.objectStore(ATTACHMENT_STORE)
+      const referenced = new Set(keep)
+      const fail = () => {
+        db.close()
+        resolve([])
+      }
+
+      const cursorReq = tx.objectStore(RECORD_STORE).openCursor()
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result
+        if (cursor) {
+          for (const c of (cursor.value as MessageRecord).message.content) {
+            if (c.attachmentId) referenced.add(c.attachmentId)
+          }
+          cursor.continue()
+          return
+        }
+        const keysReq = store.getAllKeys()
+        keysReq.onsuccess = () => {
+          const removed = (keysReq.result as string[]).filter((id) => !referenced.has(id))
+          removed.forEach((id) => store.delete(id))
+          db.close()
+          resolve(removed)
+        }
+        keysReq.onerror = fail
+      }
+      cursorReq.onerror = fail
+    })
+  } catch {
+    return []
+  }
+}
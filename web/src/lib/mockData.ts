@@ -2,11 +2,13 @@ import type { ChatMessage } from '../lib/gateway'
 
 export const mockConversation: ChatMessage[] = [
   {
+    id: 'mock-1',
     role: 'user',
     content: [{ type: 'text', text: '给我展示一下 Markdown 的各种渲染效果' }],
     timestamp: Date.now() - 60000,
   },
   {
+    id: 'mock-2',
     role: 'assistant',
     content: [{
       type: 'text',
@@ -50,11 +52,13 @@ export const mockConversation: ChatMessage[] = [
     timestamp: Date.now() - 55000,
   },
   {
+    id: 'mock-3',
     role: 'user',
     content: [{ type: 'text', text: '代码块呢？多种语言的' }],
     timestamp: Date.now() - 50000,
   },
   {
+    id: 'mock-4',
     role: 'assistant',
     content: [{
       type: 'text',
@@ -130,11 +134,13 @@ cd /root && node /usr/local/bin/openclaw gateway run \\
     timestamp: Date.now() - 45000,
   },
   {
+    id: 'mock-5',
     role: 'user',
     content: [{ type: 'text', text: '表格能渲染吗？' }],
     timestamp: Date.now() - 40000,
   },
   {
+    id: 'mock-6',
     role: 'assistant',
     content: [{
       type: 'text',
@@ -162,11 +168,13 @@ cd /root && node /usr/local/bin/openclaw gateway run \\
     timestamp: Date.now() - 35000,
   },
   {
+    id: 'mock-7',
     role: 'user',
     content: [{ type: 'text', text: '数学公式和特殊字符呢？还有 HTML？' }],
     timestamp: Date.now() - 30000,
   },
   {
+    id: 'mock-8',
     role: 'assistant',
     content: [{
       type: 'text',
@@ -224,11 +232,13 @@ Emoji: 🐾 🦞 🚀 ✨ 🎵 💡 🔧 ⚡
     timestamp: Date.now() - 25000,
   },
   {
+    id: 'mock-9',
     role: 'user',
     content: [{ type: 'text', text: '最后测一下流式输出的效果' }],
     timestamp: Date.now() - 20000,
   },
   {
+    id: 'mock-10',
     role: 'assistant',
     content: [{
       type: 'text',
@@ -241,11 +251,13 @@ Emoji: 🐾 🦞 🚀 ✨ 🎵 💡 🔧 ⚡
     timestamp: Date.now() - 15000,
   },
   {
+    id: 'mock-11',
     role: 'user',
     content: [{ type: 'text', text: '能直接渲染 AI 生成的代码吗？比如一个交互式组件' }],
     timestamp: Date.now() - 12000,
   },
   {
+    id: 'mock-12',
     role: 'assistant',
     content: [{
       type: 'text',
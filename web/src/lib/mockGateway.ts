@@ -0,0 +1,307 @@
+/**
+ * In-browser fake gateway for ?mock mode.
+ *
+ * Speaks protocol v3 over a WebSocket look-alike so the real GatewayClient and
+ * store run unchanged: connect.challenge → connect, chat.send with scripted
+ * delta/final and agent events, chat.history, chat.abort, sessions.list,
+ * sessions.patch and models.list. Prompts containing "出错" / "error" exercise the error path.
+ */
+
+import type { ChatMessage } from './gateway'
+import type { GatewayMethod, GatewayMethods, RequestFrame } from './protocol'
+import { mockConversation } from './mockData'
+import { isSeedMessage } from './transcriptSeed'
+
+export const MOCK_MODE = typeof window !== 'undefined' &&
+  new URLSearchParams(window.location.search).has('mock')
+
+const DELTA_INTERVAL_MS = 60
+const CHARS_PER_DELTA = 6
+
+interface MockSession {
+  key: string
+  label?: string
+  lastActivity: number
+  pinned?: boolean
+  archived?: boolean
+  tags?: string[]
+  model?: string | null
+  thinkingLevel?: string | null
+  instructions?: string | null
+  transcript: ChatMessage[]
+}
+
+const MOCK_MODELS: GatewayMethods['models.list']['result'] = {
+  models: [
+    { id: 'claude-sonnet-4', name: 'Claude Sonnet 4', provider: 'anthropic', reasoning: true, contextWindow: 200_000 },
+    { id: 'gpt-4o-mini', name: 'GPT-4o mini', provider: 'openai', contextWindow: 128_000 },
+    { id: 'deepseek-reasoner', name: 'DeepSeek R1', provider: 'deepseek', reasoning: true, contextWindow: 64_000 },
+  ],
+}
+
+interface MockRun {
+  runId: string
+  sessionKey: string
+  timers: Array<ReturnType<typeof setTimeout>>
+  streamed: string
+}
+
+// Module-level so reconnects (and StrictMode double mounts) see the same world
+const sessions = new Map<string, MockSession>([
+  ['main', { key: 'main', label: '聊天 UI 渲染测试', lastActivity: Date.now() - 8000, transcript: [...mockConversation] }],
+  ['coding', { key: 'coding', label: '写一个 Todo App', lastActivity: Date.now() - 3_600_000, transcript: [] }],
+  ['research', { key: 'research', lastActivity: Date.now() - 86_400_000, transcript: [] }],
+])
+const runsBySession = new Map<string, MockRun>()
+const seenIdempotencyKeys = new Map<string, string>() // idempotencyKey → runId
+let nextId = 0
+
+function scriptReply(prompt: string): { tool?: string; text: string } {
+  if (/搜索|search|查/i.test(prompt)) {
+    return {
+      tool: 'web_search',
+      text: `我搜索了一下「${prompt.slice(0, 20)}」，找到这些要点：\n\n1. **第一条**：模拟搜索结果，用于测试列表渲染\n2. **第二条**：带一个 [链接](https://example.com)\n3. **第三条**：最后一条结果\n\n> 以上内容由模拟网关生成。`,
+    }
+  }
+  if (/代码|code/i.test(prompt)) {
+    return {
+      tool: 'exec',
+      text: '好的，这是一个示例：\n\n```typescript\nfunction greet(name: string): string {\n  return `你好，${name}！`\n}\n\nconsole.log(greet("小爪"))\n```\n\n运行后会输出 `你好，小爪！`。',
+    }
+  }
+  return {
+    text: `收到：「${prompt}」\n\n这是**模拟网关**的流式回复，用来测试界面：\n\n- 逐字输出（delta 事件）\n- 思考状态（thinking 事件）\n- 完成后的 final 事件\n\n发送包含「搜索」「代码」或「出错」的消息可以触发其他流程。`,
+  }
+}
+
+function textOf(message: string) {
+  return [{ type: 'text' as const, text: message }]
+}
+
+export class MockGatewaySocket {
+  static readonly CONNECTING = 0
+  static readonly OPEN = 1
+  static readonly CLOSING = 2
+  static readonly CLOSED = 3
+
+  readyState = MockGatewaySocket.CONNECTING
+  onopen: ((ev: Event) => void) | null = null
+  onmessage: ((ev: MessageEvent) => void) | null = null
+  onerror: ((ev: Event) => void) | null = null
+  onclose: ((ev: CloseEvent) => void) | null = null
+
+  constructor() {
+    setTimeout(() => {
+      if (this.readyState !== MockGatewaySocket.CONNECTING) return
+      this.readyState = MockGatewaySocket.OPEN
+      this.onopen?.(new Event('open'))
+      this.emit('connect.challenge', { nonce: Math.random().toString(36).slice(2), ts: Date.now() })
+    }, 150)
+  }
+
+  send(data: string) {
+    if (this.readyState !== MockGatewaySocket.OPEN) return
+    const frame = JSON.parse(data) as RequestFrame
+    // Small delay so the UI sees a realistic request round-trip
+    setTimeout(() => this.handleRequest(frame), 40)
+  }
+
+  close() {
+    if (this.readyState === MockGatewaySocket.CLOSED) return
+    this.readyState = MockGatewaySocket.CLOSED
+    this.onclose?.(new CloseEvent('close'))
+  }
+
+  // --- Wire helpers ---
+
+  private deliver(frame: unknown) {
+    if (this.readyState !== MockGatewaySocket.OPEN) return
+    this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(frame) }))
+  }
+
+  private emit(event: string, payload: unknown) {
+    this.deliver({ type: 'event', event, payload })
+  }
+
+  private respond<M extends GatewayMethod>(id: string, payload: GatewayMethods[M]['result']) {
+    this.deliver({ type: 'res', id, ok: true, payload })
+  }
+
+  private fail(id: string, code: string, message: string) {
+    this.deliver({ type: 'res', id, ok: false, error: { code, message } })
+  }
+
+  // --- Methods ---
+
+  private handleRequest(frame: RequestFrame) {
+    switch (frame.method) {
+      case 'connect':
+        this.respond<'connect'>(frame.id, { type: 'hello-ok', protocol: 3 })
+        break
+      case 'chat.send':
+        this.chatSend(frame as RequestFrame<'chat.send'>)
+        break
+      case 'chat.history':
+        this.chatHistory(frame as RequestFrame<'chat.history'>)
+        break
+      case 'chat.abort':
+        this.chatAbort(frame as RequestFrame<'chat.abort'>)
+        break
+      case 'sessions.list':
+        this.respond<'sessions.list'>(frame.id, {
+          sessions: [...sessions.values()].map(({ key, label, lastActivity, pinned, archived, tags, model, thinkingLevel, instructions }) => ({
+            key, label, lastActivity, pinned, archived, tags,
+            model: model ?? undefined,
+            thinkingLevel: thinkingLevel ?? undefined,
+            instructions: instructions ?? undefined,
+          })),
+        })
+        break
+      case 'sessions.patch': {
+        const { key, ...patch } = (frame as RequestFrame<'sessions.patch'>).params
+        const session = this.session(key)
+        Object.assign(session, patch)
+        this.respond<'sessions.patch'>(frame.id, { ok: true, key })
+        break
+      }
+      case 'sessions.reset': {
+        const { key } = (frame as RequestFrame<'sessions.reset'>).params
+        this.session(key).transcript = []
+        this.respond<'sessions.reset'>(frame.id, { ok: true, key })
+        break
+      }
+      case 'sessions.compact': {
+        // Older turns become one summary line; the last exchange stays as it was
+        const { key } = (frame as RequestFrame<'sessions.compact'>).params
+        const session = this.session(key)
+        const kept = session.transcript.slice(-2)
+        const dropped = session.transcript.length - kept.length
+        if (dropped > 0) {
+          session.transcript = [
+            { id: `mock_msg_${++nextId}`, role: 'assistant', content: textOf(`（已压缩前 ${dropped} 条消息）`), timestamp: kept[0].timestamp },
+            ...kept,
+          ]
+        }
+        this.respond<'sessions.compact'>(frame.id, { ok: true, key, compacted: dropped > 0 })
+        break
+      }
+      case 'models.list':
+        this.respond<'models.list'>(frame.id, MOCK_MODELS)
+        break
+      default:
+        this.fail(frame.id, 'unknown_method', `Mock gateway does not implement ${String(frame.method)}`)
+    }
+  }
+
+  private session(key: string): MockSession {
+    let session = sessions.get(key)
+    if (!session) {
+      session = { key, lastActivity: Date.now(), transcript: [] }
+      sessions.set(key, session)
+    }
+    return session
+  }
+
+  private chatSend(frame: RequestFrame<'chat.send'>) {
+    const { sessionKey, message, idempotencyKey, attachments } = frame.params
+
+    // Retried send: acknowledge again without starting a second run
+    const existing = seenIdempotencyKeys.get(idempotencyKey)
+    if (existing) {
+      this.respond<'chat.send'>(frame.id, { runId: existing, status: 'in_flight' })
+      return
+    }
+
+    const runId = `mock_run_${++nextId}`
+    seenIdempotencyKeys.set(idempotencyKey, runId)
+    const session = this.session(sessionKey)
+    session.lastActivity = Date.now()
+    session.transcript.push({
+      id: `mock_msg_${++nextId}`,
+      role: 'user',
+      content: [
+        ...textOf(message),
+        ...(attachments ?? []).map((a) => ({ type: 'image' as const, url: `data:${a.mimeType};base64,${a.content}` })),
+      ],
+      timestamp: Date.now(),
+    })
+    this.respond<'chat.send'>(frame.id, { runId, status: 'started' })
+
+    const run: MockRun = { runId, sessionKey, timers: [], streamed: '' }
+    runsBySession.set(sessionKey, run)
+    const at = (ms: number, fn: () => void) => run.timers.push(setTimeout(fn, ms))
+
+    at(200, () => this.emit('agent', { sessionKey, runId, kind: 'thinking' }))
+
+    // Context seeds (forked sessions) are acknowledged silently
+    if (isSeedMessage(message)) {
+      at(500, () => this.finishRun(run, 'NO_REPLY', 'final'))
+      return
+    }
+
+    if (/出错|error/i.test(message)) {
+      at(900, () => {
+        this.emit('agent', { sessionKey, runId, kind: 'error', message: '模拟错误：模型服务暂时不可用' })
+        runsBySession.delete(sessionKey)
+      })
+      return
+    }
+
+    const reply = scriptReply(message)
+    let t = 700
+    if (reply.tool) {
+      at(t, () => this.emit('agent', { sessionKey, runId, kind: 'tool_use', tool: reply.tool }))
+      t += 1200
+    }
+    for (let i = CHARS_PER_DELTA; i < reply.text.length + CHARS_PER_DELTA; i += CHARS_PER_DELTA) {
+      const partial = reply.text.slice(0, i)
+      at(t, () => {
+        run.streamed = partial
+        this.emit('chat', { sessionKey, runId, state: 'delta', message: { role: 'assistant', content: textOf(partial) } })
+      })
+      t += DELTA_INTERVAL_MS
+    }
+    at(t, () => this.finishRun(run, reply.text, 'final'))
+  }
+
+  private finishRun(run: MockRun, text: string, state: 'final' | 'aborted') {
+    run.timers.forEach(clearTimeout)
+    runsBySession.delete(run.sessionKey)
+    const session = this.session(run.sessionKey)
+    const id = `mock_msg_${++nextId}`
+    if (text) {
+      session.transcript.push({ id, role: 'assistant', content: textOf(text), timestamp: Date.now() })
+    }
+    session.lastActivity = Date.now()
+    this.emit('chat', {
+      sessionKey: run.sessionKey,
+      runId: run.runId,
+      state,
+      // An abort before the first delta has nothing to show
+      message: text ? { id, role: 'assistant', content: textOf(text) } : undefined,
+    })
+    this.emit('agent', { sessionKey: run.sessionKey, runId: run.runId, kind: 'done' })
+  }
+
+  private chatHistory(frame: RequestFrame<'chat.history'>) {
+    const { sessionKey, limit, before } = frame.params
+    const transcript = this.session(sessionKey).transcript
+    const end = before ? Math.max(0, transcript.findIndex((m) => m.id === before)) : transcript.length
+    const start = Math.max(0, end - limit)
+    this.respond<'chat.history'>(frame.id, {
+      messages: transcript.slice(start, end).map(({ id, role, content, timestamp }) => ({ id, role, content, timestamp })),
+      hasMore: start > 0,
+      nextCursor: start > 0 ? transcript[start].id : undefined,
+    })
+  }
+
+  private chatAbort(frame: RequestFrame<'chat.abort'>) {
+    const run = runsBySession.get(frame.params.sessionKey)
+    if (run) this.finishRun(run, run.streamed, 'aborted')
+    this.respond<'chat.abort'>(frame.id, { ok: true, aborted: !!run })
+  }
+}
+
+export function createMockSocket(): WebSocket {
+  return new MockGatewaySocket() as unknown as WebSocket
+}
@@ -0,0 +1,52 @@
+/**
+ * Model selection helpers: how the SPA names models and thinking levels, and
+ * how a session's override maps onto the `provider/model` refs sessions.patch takes.
+ */
+
+import type { ModelInfo, SessionInfo } from './gateway'
+import { THINKING_LEVELS, type ThinkingLevel } from './protocol'
+import { fuzzyScore } from './commands'
+
+export const THINKING_LABELS: Record<ThinkingLevel, string> = {
+  off: '关',
+  minimal: '极简',
+  low: '低',
+  medium: '中',
+  high: '高',
+}
+
+export function modelRef(model: Pick<ModelInfo, 'id' | 'provider'>): string {
+  return model.provider && !model.id.startsWith(`${model.provider}/`) ? `${model.provider}/${model.id}` : model.id
+}
+
+/** The session's model override as a ref, or undefined when it uses the default */
+export function sessionModelRef(session: SessionInfo | undefined): string | undefined {
+  if (!session?.model) return undefined
+  return modelRef({ id: session.model, provider: session.modelProvider })
+}
+
+export function sessionThinkingLevel(session: SessionInfo | undefined): ThinkingLevel | undefined {
+  const level = session?.thinkingLevel
+  return THINKING_LEVELS.includes(level as ThinkingLevel) ? (level as ThinkingLevel) : undefined
+}
+
+/** Short label for the header: the model's name, else its id without the provider */
+export function modelLabel(ref: string, models: ModelInfo[]): string {
+  const known = models.find((m) => modelRef(m) === ref)
+  if (known?.name) return known.name
+  return ref.slice(ref.lastIndexOf('/') + 1)
+}
+
+/** Best fuzzy match for a typed model name (`/model sonnet`) — by name, id or full ref */
+export function findModel(query: string, models: ModelInfo[]): ModelInfo | undefined {
+  let best: { model: ModelInfo; score: number } | undefined
+  for (const model of models) {
+    const scores = [model.name, model.id, modelRef(model)]
+      .map((target) => (target ? fuzzyScore(query, target) : null))
+      .filter((s): s is number => s !== null)
+    if (scores.length === 0) continue
+    const score = Math.max(...scores)
+    if (!best || score > best.score) best = { model, score }
+  }
+  return best?.model
+}
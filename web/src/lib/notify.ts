@@ -0,0 +1,44 @@
+/**
+ * Reply notifications — posted through the native bridge when a reply lands
+ * where the user can't see it: another session, or the app in the background.
+ * Outside the Android shell there is no bridge and these do nothing.
+ */
+
+interface NotifyBridge {
+  notifyReply?: (sessionKey: string, title: string, body: string) => void
+  clearReplyNotification?: (sessionKey: string) => void
+  getPendingSession?: () => string
+}
+
+function bridge(): NotifyBridge | undefined {
+  return window.LilClaw as unknown as NotifyBridge | undefined
+}
+
+export function isAppHidden(): boolean {
+  return document.visibilityState === 'hidden'
+}
+
+export function notifyReply(sessionKey: string, title: string, body: string) {
+  try {
+    bridge()?.notifyReply?.(sessionKey, title, body || '新回复')
+  } catch {
+    // Silent fail — a missed notification isn't worth an error
+  }
+}
+
+export function clearReplyNotification(sessionKey: string) {
+  try {
+    bridge()?.clearReplyNotification?.(sessionKey)
+  } catch {
+    // Silent fail
+  }
+}
+
+/** Session a notification tap asked for before the page was ready, if any */
+export function takePendingSession(): string | null {
+  try {
+    return bridge()?.getPendingSession?.() || null
+  } catch {
+    return null
+  }
+}
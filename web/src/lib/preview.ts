@@ -0,0 +1,30 @@
+/**
+ * One-line summaries of a message, for places that can't render the bubble:
+ * drawer rows and notifications.
+ */
+
+import type { ChatMessage } from './gateway'
+import type { ComposerDraft } from './messageDb'
+
+/** Plain text with markdown markers and line breaks flattened */
+function plainText(markdown: string): string {
+  return markdown.replace(/[#*_`~[\]]/g, '').replace(/\s+/g, ' ').trim()
+}
+
+/** "[图片] caption", "[2 张图片]", or just the text; truncated to `max` characters */
+export function messagePreview(message: ChatMessage, max = 40): string {
+  const text = plainText(message.content.map((c) => (c.type === 'text' ? c.text ?? '' : '')).join(' '))
+  const images = message.content.filter((c) => c.type === 'image').length
+  const tag = images === 0 ? '' : images === 1 ? '[图片]' : `[${images} 张图片]`
+  const preview = [tag, text].filter(Boolean).join(' ')
+  return truncate(preview, max)
+}
+
+/** What a session's unsent draft says, the same way */
+export function draftPreview(draft: ComposerDraft, max = 40): string {
+  return truncate([draft.image && '[图片]', draft.text.replace(/\s+/g, ' ').trim()].filter(Boolean).join(' '), max)
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max) + '…' : text
+}
@@ -0,0 +1,270 @@
+/**
+ * OpenClaw gateway protocol v3 — the frames the SPA sends and receives.
+ *
+ * Every frame and payload we consume has a schema here; GatewayClient
+ * validates incoming traffic against them so a malformed frame surfaces as a
+ * diagnostic rather than a silently ignored `undefined`.
+ */
+
+import type { MessageContent } from './gateway'
+import {
+  array,
+  boolean,
+  literal,
+  number,
+  object,
+  optional,
+  string,
+  union,
+  unknown,
+  type Infer,
+  type Validator,
+} from './validate'
+
+// --- Shared shapes ---
+
+const contentBlock = object({
+  type: optional(string()),
+  text: optional(string()),
+  url: optional(string()),
+  image_url: optional(object({ url: optional(string()) })),
+})
+
+/** Message content on the wire: a plain string or a list of typed blocks */
+const wireContent = union(string(), array(contentBlock))
+export type WireContent = Infer<typeof wireContent>
+
+const errorShape = union(
+  string(),
+  object({ code: optional(string()), message: optional(string()) }),
+)
+
+// --- Frames ---
+
+export const responseFrame = object({
+  type: optional(literal('res')),
+  id: string(),
+  ok: optional(boolean()),
+  payload: optional(unknown()),
+  /** Pre-v3 gateways put the payload here */
+  result: optional(unknown()),
+  error: optional(errorShape),
+})
+export type ResponseFrame = Infer<typeof responseFrame>
+
+export const eventFrame = object({
+  type: optional(literal('event')),
+  event: string(),
+  payload: optional(unknown()),
+  /** Pre-v3 gateways put the payload here */
+  data: optional(unknown()),
+  seq: optional(number()),
+})
+export type EventFrame = Infer<typeof eventFrame>
+
+// --- Event payloads ---
+
+export const connectChallengePayload = object({
+  nonce: optional(string()),
+  ts: optional(number()),
+})
+
+export const chatEventPayload = object({
+  sessionKey: optional(string()),
+  runId: optional(string()),
+  messageId: optional(string()),
+  /** delta / final / aborted / error; GatewayClient skips states it doesn't know */
+  state: optional(string()),
+  message: optional(object({
+    id: optional(string()),
+    role: optional(string()),
+    content: optional(wireContent),
+  })),
+  /** Older gateways send content at the top level */
+  content: optional(wireContent),
+})
+export type ChatEventPayload = Infer<typeof chatEventPayload>
+
+export const agentEventPayload = object({
+  sessionKey: optional(string()),
+  runId: optional(string()),
+  /** Only thinking / tool_use / done / error are surfaced; other streams are ignored */
+  kind: optional(string()),
+})
+export type AgentEventPayload = Infer<typeof agentEventPayload>
+
+/** Events the SPA consumes — anything else (tick, presence, …) is ignored */
+export const EVENT_SCHEMAS = {
+  'connect.challenge': connectChallengePayload,
+  chat: chatEventPayload,
+  agent: agentEventPayload,
+} satisfies Record<string, Validator<unknown>>
+export type GatewayEvent = keyof typeof EVENT_SCHEMAS
+
+// --- Methods ---
+
+export interface ChatAttachment {
+  mimeType: string
+  content: string
+}
+
+export interface ConnectParams {
+  minProtocol: number
+  maxProtocol: number
+  client: { id: string; version: string; platform: string; mode: string }
+  role: 'operator'
+  scopes: string[]
+  caps: string[]
+  auth: { token: string }
+  locale: string
+  userAgent: string
+}
+
+export interface ChatSendParams {
+  sessionKey: string
+  message: string
+  idempotencyKey: string
+  attachments?: ChatAttachment[]
+}
+
+export interface ChatHistoryParams {
+  sessionKey: string
+  limit: number
+  before?: string
+}
+
+export interface ChatAbortParams {
+  sessionKey: string
+  runId?: string
+}
+
+/** Reasoning effort the gateway passes to models that support it */
+export type ThinkingLevel = 'off' | 'minimal' | 'low' | 'medium' | 'high'
+export const THINKING_LEVELS: ThinkingLevel[] = ['off', 'minimal', 'low', 'medium', 'high']
+
+export interface SessionsPatchParams {
+  key: string
+  label?: string
+  /** `provider/model`; null clears the override and falls back to the gateway default */
+  model?: string | null
+  thinkingLevel?: ThinkingLevel | null
+  /** Extra system instructions for this session, on top of the agent persona; null clears them */
+  instructions?: string | null
+  // Drawer organization — not every gateway version stores these
+  pinned?: boolean
+  archived?: boolean
+  tags?: string[]
+}
+
+/** Start the session's transcript over — the agent forgets the conversation */
+export interface SessionsResetParams {
+  key: string
+}
+
+/** Summarize older turns into a shorter transcript to free up context */
+export interface SessionsCompactParams {
+  key: string
+  /** Transcript lines to keep verbatim; the gateway picks when absent */
+  maxLines?: number
+}
+
+const chatSendResult = object({
+  runId: optional(string()),
+  status: optional(string()),
+})
+
+/** Checked row by row by GatewayClient — one bad message doesn't cost the page */
+export const historyMessage = object({
+  id: optional(string()),
+  role: string(),
+  content: optional(wireContent),
+  timestamp: optional(number()),
+  idempotencyKey: optional(string()),
+})
+export type HistoryMessage = Infer<typeof historyMessage>
+
+const chatHistoryResult = object({
+  messages: optional(array(unknown())),
+  hasMore: optional(boolean()),
+  nextCursor: optional(string()),
+})
+
+/** Checked row by row by GatewayClient — one bad row doesn't cost the rest */
+export const sessionRow = object({
+  key: string(),
+  label: optional(string()),
+  displayName: optional(string()),
+  lastActivity: optional(number()),
+  pinned: optional(boolean()),
+  archived: optional(boolean()),
+  tags: optional(array(string())),
+  model: optional(string()),
+  modelProvider: optional(string()),
+  thinkingLevel: optional(string()),
+  instructions: optional(string()),
+})
+
+const sessionsListResult = object({
+  sessions: optional(array(unknown())),
+})
+
+const modelRow = object({
+  id: string(),
+  name: optional(string()),
+  provider: optional(string()),
+  reasoning: optional(boolean()),
+  contextWindow: optional(number()),
+})
+
+const modelsListResult = object({
+  models: optional(array(modelRow)),
+})
+
+/** Request params and validated result type for each method the SPA calls */
+export interface GatewayMethods {
+  connect: { params: ConnectParams; result: unknown }
+  'chat.send': { params: ChatSendParams; result: Infer<typeof chatSendResult> | undefined }
+  'chat.history': { params: ChatHistoryParams; result: Infer<typeof chatHistoryResult> | undefined }
+  'chat.abort': { params: ChatAbortParams; result: unknown }
+  'sessions.list': { params: Record<string, never>; result: Infer<typeof sessionsListResult> | undefined }
+  'sessions.patch': { params: SessionsPatchParams; result: unknown }
+  'sessions.reset': { params: SessionsResetParams; result: unknown }
+  'sessions.compact': { params: SessionsCompactParams; result: unknown }
+  'models.list': { params: Record<string, never>; result: Infer<typeof modelsListResult> | undefined }
+}
+export type GatewayMethod = keyof GatewayMethods
+
+export const RESULT_SCHEMAS: { [M in GatewayMethod]: Validator<GatewayMethods[M]['result']> } = {
+  connect: unknown(),
+  'chat.send': optional(chatSendResult),
+  'chat.history': optional(chatHistoryResult),
+  'chat.abort': unknown(),
+  'sessions.list': optional(sessionsListResult),
+  'sessions.patch': unknown(),
+  'sessions.reset': unknown(),
+  'sessions.compact': unknown(),
+  'models.list': optional(modelsListResult),
+}
+
+export interface RequestFrame<M extends GatewayMethod = GatewayMethod> {
+  type: 'req'
+  id: string
+  method: M
+  params: GatewayMethods[M]['params']
+}
+
+/** Normalize wire content (string or OpenAI-style blocks) to MessageContent[] */
+export function normalizeContent(content: WireContent | undefined): MessageContent[] {
+  if (content === undefined) return []
+  if (typeof content === 'string') return [{ type: 'text', text: content }]
+  return content.map((c) => {
+    if (c.type === 'image_url' && c.image_url?.url) {
+      return { type: 'image' as const, url: c.image_url.url }
+    }
+    return {
+      type: (c.type === 'image_url' ? 'image' : c.type || 'text') as 'text' | 'image',
+      text: c.text,
+      url: c.url || c.image_url?.url,
+    }
+  })
+}
@@ -0,0 +1,245 @@
+/**
+ * Stable message ids + merging server history into the local cache.
+ *
+ * Server messages keep the id the gateway gives them (or a deterministic
+ * fingerprint id when it gives none). Messages created on the device get a
+ * `local_` id until the server echoes them back in chat.history.
+ */
+
+import type { ChatMessage } from './gateway'
+
+const LOCAL_PREFIX = 'local_'
+
+export function createClientId(): string {
+  return `${LOCAL_PREFIX}${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function isClientId(id: string): boolean {
+  return id.startsWith(LOCAL_PREFIX)
+}
+
+function messageText(msg: Pick<ChatMessage, 'content'>): string {
+  return msg.content
+    .filter((c) => c.type === 'text' && c.text)
+    .map((c) => c.text!.trim())
+    .join('\n')
+}
+
+/** Role + text — used to recognise an optimistic message once the server echoes it */
+export function fingerprint(msg: Pick<ChatMessage, 'role' | 'content'>): string {
+  return `${msg.role}:${messageText(msg)}`
+}
+
+// djb2 — short, stable, good enough to tell transcript entries apart
+function hash(input: string): string {
+  let h = 5381
+  for (let i = 0; i < input.length; i++) {
+    h = ((h << 5) + h + input.charCodeAt(i)) | 0
+  }
+  return (h >>> 0).toString(36)
+}
+
+/**
+ * Give id-less server messages a deterministic id so the same transcript entry
+ * maps to the same id on every history load. Repeats of identical content are
+ * disambiguated by their occurrence count.
+ */
+export function assignServerIds(messages: Array<Omit<ChatMessage, 'id'> & { id?: string }>): ChatMessage[] {
+  const seen = new Map<string, number>()
+  return messages.map((m) => {
+    if (m.id) return m as ChatMessage
+    const base = `${fingerprint(m)}|${m.timestamp ?? ''}`
+    const n = seen.get(base) ?? 0
+    seen.set(base, n + 1)
+    return { ...m, id: `srv_${hash(base)}${n > 0 ? `_${n}` : ''}` }
+  })
+}
+
+/** Older caches stored messages without ids — give them client ids on load */
+export function ensureMessageIds(messages: Array<Omit<ChatMessage, 'id'> & { id?: string }>): ChatMessage[] {
+  return messages.map((m) => (m.id ? (m as ChatMessage) : { ...m, id: createClientId() }))
+}
+
+/** The outbox fields reconcileMessages needs to tell a confirmed send from a look-alike */
+export interface OutboxRef {
+  messageId: string
+  idempotencyKey: string
+  createdAt: number
+}
+
+interface InFlight {
+  message: ChatMessage
+  idempotencyKey?: string
+  /** Server copies older than this predate the send */
+  since: number
+}
+
+function takeInFlight(candidates: InFlight[], server: ChatMessage): ChatMessage | undefined {
+  // A gateway that echoes keys has said exactly which send this was
+  const idx = server.idempotencyKey
+    ? candidates.findIndex((c) => c.idempotencyKey === server.idempotencyKey)
+    : candidates.findIndex((c) => server.timestamp !== undefined && server.timestamp >= c.since && fingerprint(c.message) === fingerprint(server))
+  return idx >= 0 ? candidates.splice(idx, 1)[0].message : undefined
+}
+
+function takeInterrupted(candidates: ChatMessage[], server: ChatMessage): ChatMessage | undefined {
+  if (server.role !== 'assistant') return undefined
+  const text = messageText(server)
+  // An empty partial would be a prefix of every reply
+  const idx = candidates.findIndex((m) => {
+    const partial = messageText(m)
+    return partial !== '' && text.startsWith(partial)
+  })
+  return idx >= 0 ? candidates.splice(idx, 1)[0] : undefined
+}
+
+const ECHO_PREFIX = 'echo:'
+
+/**
+ * Tombstone for a user message deleted before the server confirmed it: its
+ * echo comes back under a server id, recognised the way an outbox message
+ * recognises its copy. Undefined when the send can't have reached the gateway.
+ */
+export function echoTombstone(msg: ChatMessage, entry?: OutboxRef & { attempts: number }): string | undefined {
+  if (!isClientId(msg.id) || msg.role !== 'user') return undefined
+  if (entry && entry.attempts === 0) return undefined
+  const since = entry?.createdAt ?? msg.timestamp
+  if (since === undefined) return undefined
+  return `${ECHO_PREFIX}${since}:${entry?.idempotencyKey ?? ''}:${fingerprint(msg)}`
+}
+
+/**
+ * Swap echo tombstones for the id of the server copy they match in this
+ * page, so the copy stays deleted on every later load. Returns `tombstones`
+ * itself when nothing matched.
+ */
+export function resolveEchoTombstones(tombstones: string[], server: ChatMessage[], localIds: ReadonlySet<string>): string[] {
+  if (!tombstones.some((t) => t.startsWith(ECHO_PREFIX))) return tombstones
+  const taken = new Set(tombstones)
+  let changed = false
+  const resolved = tombstones.map((t) => {
+    if (!t.startsWith(ECHO_PREFIX)) return t
+    const [since, key, ...rest] = t.slice(ECHO_PREFIX.length).split(':')
+    const fp = rest.join(':')
+    const echo = server.find((s) => !taken.has(s.id) && !localIds.has(s.id) && (s.idempotencyKey
+      ? s.idempotencyKey === key
+      : s.timestamp !== undefined && s.timestamp >= Number(since) && fingerprint(s) === fp))
+    if (!echo) return t
+    taken.add(echo.id)
+    changed = true
+    return echo.id
+  })
+  return changed ? resolved : tombstones
+}
+
+/**
+ * Merge a chat.history page into the locally cached transcript.
+ *
+ * The local list is the base: optimistic messages, messages outside the
+ * server's page window and local deletions all survive. Server messages
+ * either confirm a local message (same id, or same fingerprint as an
+ * unconfirmed local one — which then adopts the server id) or are new, in
+ * which case they are slotted in after the closest preceding confirmed
+ * message. Tombstoned ids (locally deleted) are never re-added; a message
+ * deleted before its echo arrived is tombstoned by resolveEchoTombstones.
+ *
+ * Messages still in the outbox (queued, sending or failed) are only matched
+ * by a server copy that proves it is theirs: the same idempotency key, or the
+ * same fingerprint with a timestamp no older than the entry — otherwise
+ * sending "ok" twice would let the second adopt the first and never go out.
+ *
+ * `page: 'older'` marks a page fetched by scrolling up: when it shares no
+ * message with the local list, it goes in front of everything.
+ */
+export function reconcileMessages(
+  local: ChatMessage[],
+  server: ChatMessage[],
+  tombstones: ReadonlySet<string> = new Set(),
+  page: 'latest' | 'older' = 'latest',
+  outbox: ReadonlyArray<OutboxRef> = [],
+): ChatMessage[] {
+  const localIds = new Set(local.map((m) => m.id))
+  const entries = new Map(outbox.map((e) => [e.messageId, e]))
+
+  // Unconfirmed local messages, queued per fingerprint in transcript order
+  const unconfirmed = new Map<string, ChatMessage[]>()
+  // Partial replies cut off by a reconnect — the server copy has the full text
+  const interrupted: ChatMessage[] = []
+  // Messages the outbox still owns, with what a server copy must show to claim them
+  const inFlight: InFlight[] = []
+  for (const m of local) {
+    if (!isClientId(m.id)) continue
+    if (m.interrupted) {
+      interrupted.push(m)
+      continue
+    }
+    if (m.status) {
+      const entry = entries.get(m.id)
+      inFlight.push({ message: m, idempotencyKey: entry?.idempotencyKey, since: entry?.createdAt ?? m.timestamp ?? Infinity })
+      continue
+    }
+    const fp = fingerprint(m)
+    const list = unconfirmed.get(fp)
+    if (list) list.push(m)
+    else unconfirmed.set(fp, [m])
+  }
+
+  const adopted = new Map<string, ChatMessage>() // local id → merged message
+  // New server messages, keyed by the id they follow (null = before everything confirmed)
+  const inserts = new Map<string | null, ChatMessage[]>()
+  let anchor: string | null = null
+  let firstMatch: string | null = null
+
+  for (const s of server) {
+    if (tombstones.has(s.id)) continue
+
+    if (localIds.has(s.id)) {
+      anchor = s.id
+      firstMatch ??= anchor
+      continue
+    }
+
+    const match = unconfirmed.get(fingerprint(s))?.shift() ?? takeInFlight(inFlight, s) ?? takeInterrupted(interrupted, s)
+    if (match) {
+      // The server has it, so it was delivered — even if our ack timed out
+      // Images sent from here stay as device attachments rather than the server's inline copy
+      const content = match.content.some((c) => c.attachmentId) ? match.content : s.content
+      adopted.set(match.id, { ...match, ...s, content, timestamp: match.timestamp ?? s.timestamp, interrupted: undefined, status: undefined })
+      anchor = match.id
+      firstMatch ??= anchor
+      continue
+    }
+
+    const list = inserts.get(anchor)
+    if (list) list.push(s)
+    else inserts.set(anchor, [s])
+  }
+
+  if (adopted.size === 0 && inserts.size === 0) return local
+
+  const merged: ChatMessage[] = []
+  const leading = inserts.get(null) ?? []
+  let leadingPlaced = leading.length === 0
+  if (!leadingPlaced && !firstMatch && page === 'older') {
+    merged.push(...leading)
+    leadingPlaced = true
+  }
+
+  for (const m of local) {
+    // Server-only messages with no confirmed predecessor go right before the
+    // first confirmed one; with nothing confirmed, before the first message
+    // still in flight (they are older than anything we have not sent yet)
+    const placeHere = firstMatch ? m.id === firstMatch : isClientId(m.id)
+    if (!leadingPlaced && placeHere) {
+      merged.push(...leading)
+      leadingPlaced = true
+    }
+    const out = adopted.get(m.id) ?? m
+    merged.push(out)
+    const after = inserts.get(m.id)
+    if (after) merged.push(...after)
+  }
+  if (!leadingPlaced) merged.push(...leading)
+
+  return merged
+}
@@ -0,0 +1,190 @@
+/**
+ * In-memory inverted index over cached messages.
+ *
+ * Latin text is indexed per word (queries match word prefixes). Chinese,
+ * Japanese and Korean have no spaces, so runs of those scripts are indexed as
+ * character unigrams and bigrams; a query is split the same way, candidate
+ * messages are the intersection of the postings, and a final substring check
+ * drops bigram false positives.
+ */
+
+import type { ChatMessage } from './gateway'
+
+export interface SearchDoc {
+  sessionKey: string
+  messageId: string
+  role: ChatMessage['role']
+  text: string
+  timestamp?: number
+}
+
+export interface SnippetPart {
+  text: string
+  hit: boolean
+}
+
+export interface SearchHit {
+  doc: SearchDoc
+  snippet: SnippetPart[]
+}
+
+const SEGMENT_RE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+|[\p{L}\p{N}_]+/gu
+const CJK_RE = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u
+
+const SNIPPET_BEFORE = 16
+const SNIPPET_LENGTH = 72
+
+/** Index tokens for a text: latin words, CJK unigrams + bigrams */
+function indexTokens(lower: string): Set<string> {
+  const tokens = new Set<string>()
+  for (const [segment] of lower.matchAll(SEGMENT_RE)) {
+    if (!CJK_RE.test(segment)) {
+      tokens.add(segment)
+      continue
+    }
+    const chars = Array.from(segment)
+    for (let i = 0; i < chars.length; i++) {
+      tokens.add(chars[i])
+      if (i + 1 < chars.length) tokens.add(chars[i] + chars[i + 1])
+    }
+  }
+  return tokens
+}
+
+/** Query tokens for one term — bigrams where possible, since they are far more selective */
+function queryTokens(term: string): Array<{ token: string; prefix: boolean }> {
+  const out: Array<{ token: string; prefix: boolean }> = []
+  for (const [segment] of term.matchAll(SEGMENT_RE)) {
+    if (!CJK_RE.test(segment)) {
+      out.push({ token: segment, prefix: true })
+      continue
+    }
+    const chars = Array.from(segment)
+    if (chars.length === 1) {
+      out.push({ token: chars[0], prefix: false })
+      continue
+    }
+    for (let i = 0; i + 1 < chars.length; i++) {
+      out.push({ token: chars[i] + chars[i + 1], prefix: false })
+    }
+  }
+  return out
+}
+
+function intersect(a: Set<string>, b: Set<string>): Set<string> {
+  const out = new Set<string>()
+  for (const id of a) if (b.has(id)) out.add(id)
+  return out
+}
+
+function messageText(msg: ChatMessage): string {
+  return msg.content
+    .filter((c) => c.type === 'text' && c.text)
+    .map((c) => c.text!)
+    .join('\n')
+}
+
+function buildSnippet(text: string, lower: string, terms: string[]): SnippetPart[] {
+  let first = lower.length
+  for (const t of terms) {
+    const pos = lower.indexOf(t)
+    if (pos !== -1 && pos < first) first = pos
+  }
+  if (first === lower.length) first = 0
+
+  // Don't cut off just a few leading characters
+  const start = first - SNIPPET_BEFORE <= 4 ? 0 : first - SNIPPET_BEFORE
+  const end = Math.min(text.length, start + SNIPPET_LENGTH)
+
+  // Mark every term occurrence inside the window
+  const marks = new Array<boolean>(end - start).fill(false)
+  for (const t of terms) {
+    let pos = lower.indexOf(t, start)
+    while (pos !== -1 && pos < end) {
+      for (let i = pos; i < Math.min(pos + t.length, end); i++) marks[i - start] = true
+      pos = lower.indexOf(t, pos + t.length)
+    }
+  }
+
+  const parts: SnippetPart[] = []
+  if (start > 0) parts.push({ text: '…', hit: false })
+  for (let i = 0; i < marks.length; i++) {
+    const ch = text[start + i] === '\n' ? ' ' : text[start + i]
+    const last = parts[parts.length - 1]
+    if (last && last.hit === marks[i] && last.text !== '…') last.text += ch
+    else parts.push({ text: ch, hit: marks[i] })
+  }
+  if (end < text.length) parts.push({ text: '…', hit: false })
+  return parts
+}
+
+export class SearchIndex {
+  private docs = new Map<string, SearchDoc & { lower: string }>()
+  private postings = new Map<string, Set<string>>()
+
+  get size(): number {
+    return this.docs.size
+  }
+
+  addSession(sessionKey: string, messages: ChatMessage[]) {
+    for (const msg of messages) {
+      const text = messageText(msg)
+      if (!text.trim()) continue
+      const docId = `${sessionKey}\u0000${msg.id}`
+      const lower = text.toLowerCase()
+      this.docs.set(docId, { sessionKey, messageId: msg.id, role: msg.role, text, timestamp: msg.timestamp, lower })
+      for (const token of indexTokens(lower)) {
+        let set = this.postings.get(token)
+        if (!set) {
+          set = new Set()
+          this.postings.set(token, set)
+        }
+        set.add(docId)
+      }
+    }
+  }
+
+  private lookup(token: string, prefix: boolean): Set<string> {
+    if (!prefix) return this.postings.get(token) ?? new Set()
+    const out = new Set<string>()
+    for (const [key, ids] of this.postings) {
+      if (key.startsWith(token)) ids.forEach((id) => out.add(id))
+    }
+    return out
+  }
+
+  /** Every whitespace-separated term must match; newest messages first */
+  search(query: string, limit = 50): SearchHit[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+    if (terms.length === 0) return []
+
+    let candidates: Set<string> | null = null
+    for (const term of terms) {
+      for (const { token, prefix } of queryTokens(term)) {
+        const ids = this.lookup(token, prefix)
+        candidates = candidates ? intersect(candidates, ids) : ids
+        if (candidates.size === 0) return []
+      }
+    }
+    // Punctuation-only query: no tokens, fall back to scanning
+    const pool = candidates ? [...candidates] : [...this.docs.keys()]
+
+    const hits: SearchHit[] = []
+    for (const id of pool) {
+      const doc = this.docs.get(id)!
+      if (!terms.every((t) => doc.lower.includes(t))) continue
+      const { lower, ...rest } = doc
+      hits.push({ doc: rest, snippet: buildSnippet(doc.text, lower, terms) })
+    }
+    hits.sort((a, b) => (b.doc.timestamp ?? 0) - (a.doc.timestamp ?? 0))
+    return hits.slice(0, limit)
+  }
+}
+
+export function buildSearchIndex(messagesBySession: Record<string, ChatMessage[]>): SearchIndex {
+  const index = new SearchIndex()
+  for (const [sessionKey, messages] of Object.entries(messagesBySession)) {
+    index.addSession(sessionKey, messages)
+  }
+  return index
+}
@@ -0,0 +1,58 @@
+/**
+ * Session tags: plain strings on the session, colored from a small palette.
+ *
+ * The gateway (when it stores tags at all) only sees the names; the color a
+ * user picked lives on this device. Tags without a chosen color get a stable
+ * one derived from the name, so they look the same on every launch.
+ */
+
+export type TagColor = 'red' | 'orange' | 'amber' | 'green' | 'teal' | 'blue' | 'purple' | 'gray'
+
+export const TAG_COLORS: TagColor[] = ['red', 'orange', 'amber', 'green', 'teal', 'blue', 'purple', 'gray']
+
+// Full class names so Tailwind keeps them
+export const TAG_DOT_CLASS: Record<TagColor, string> = {
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  amber: 'bg-amber-500',
+  green: 'bg-green-500',
+  teal: 'bg-teal-500',
+  blue: 'bg-blue-500',
+  purple: 'bg-purple-500',
+  gray: 'bg-gray-400',
+}
+
+export const TAG_CHIP_CLASS: Record<TagColor, string> = {
+  red: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  orange: 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300',
+  amber: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  green: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  teal: 'bg-teal-100 text-teal-700 dark:bg-teal-900/40 dark:text-teal-300',
+  blue: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300',
+  purple: 'bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-300',
+  gray: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300',
+}
+
+// Long enough for "工作" or "reading list", short enough for a drawer row
+export const MAX_TAG_LENGTH = 12
+
+/** Trimmed, whitespace-collapsed tag name; empty if there's nothing left */
+export function normalizeTag(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH)
+}
+
+export function tagColor(name: string, chosen: Record<string, TagColor>): TagColor {
+  const picked = chosen[name]
+  if (picked) return picked
+  let hash = 0
+  for (let i = 0; i < name.length; i++) hash = (hash * 31 + name.charCodeAt(i)) | 0
+  // Leave gray for tags the user deliberately mutes
+  return TAG_COLORS[Math.abs(hash) % (TAG_COLORS.length - 1)]
+}
+
+/** Every tag in use, most used first */
+export function collectTags(tagLists: Array<string[] | undefined>): string[] {
+  const counts = new Map<string, number>()
+  for (const tags of tagLists) tags?.forEach((t) => counts.set(t, (counts.get(t) ?? 0) + 1))
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([t]) => t)
+}
@@ -0,0 +1,150 @@
+/**
+ * Local storage budget: how much the WebView lets us keep, what each session
+ * costs, and which caches to drop when the policy (or a full disk) says so.
+ *
+ * Eviction only touches the device copy: a session's transcript reloads from
+ * the gateway when it's opened again. Pinned sessions, the open session and
+ * sessions that exist only on this device are never evicted.
+ */
+
+import type { ChatMessage } from './gateway'
+import type { BranchPoint } from './branches'
+import type { AttachmentInfo } from './messageDb'
+import { attachmentIdsOf } from './attachments'
+
+export interface StoragePolicy {
+  /** Drop cached transcripts idle for longer than this; 0 keeps them forever */
+  sessionDays: number
+  /** Drop images older than this; 0 keeps them forever */
+  attachmentDays: number
+}
+
+export const DEFAULT_STORAGE_POLICY: StoragePolicy = { sessionDays: 0, attachmentDays: 0 }
+
+export interface StorageEstimate {
+  usage: number
+  quota: number
+}
+
+export interface SessionUsage {
+  key: string
+  /** Transcript + branches, as stored */
+  messageBytes: number
+  /** Images it shows; an image shared by forks counts toward each */
+  attachmentBytes: number
+  lastActivity: number
+}
+
+export interface EvictionCandidate {
+  key: string
+  lastActivity: number
+  /** Pinned, open, or only on this device */
+  protected: boolean
+}
+
+export interface EvictionPlan {
+  sessionKeys: string[]
+  attachmentIds: string[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export async function estimateStorage(): Promise<StorageEstimate | null> {
+  if (!navigator.storage?.estimate) return null
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+    return { usage, quota }
+  } catch {
+    return null
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`
+}
+
+const encoder = new TextEncoder()
+
+function jsonBytes(value: unknown): number {
+  return encoder.encode(JSON.stringify(value)).length
+}
+
+/** Per-session footprint, largest first */
+export function measureSessions(
+  messages: Record<string, ChatMessage[]>,
+  branches: Record<string, BranchPoint[]>,
+  attachments: AttachmentInfo[],
+): SessionUsage[] {
+  const sizes = new Map(attachments.map((a) => [a.id, a.size]))
+  const keys = new Set([...Object.keys(messages), ...Object.keys(branches)])
+  return [...keys]
+    .map((key) => {
+      const msgs = messages[key] ?? []
+      const points = branches[key] ?? []
+      const ids = new Set([...attachmentIdsOf(msgs), ...points.flatMap((p) => p.variants.flatMap(attachmentIdsOf))])
+      let attachmentBytes = 0
+      ids.forEach((id) => { attachmentBytes += sizes.get(id) ?? 0 })
+      return {
+        key,
+        messageBytes: (msgs.length > 0 ? jsonBytes(msgs) : 0) + (points.length > 0 ? jsonBytes(points) : 0),
+        attachmentBytes,
+        lastActivity: msgs.reduce((t, m) => Math.max(t, m.timestamp ?? 0), 0),
+      }
+    })
+    .filter((u) => u.messageBytes + u.attachmentBytes > 0)
+    .sort((a, b) => b.messageBytes + b.attachmentBytes - (a.messageBytes + a.attachmentBytes))
+}
+
+/**
+ * What the policy says to drop. An image goes when it is past its age limit
+ * or when every session showing it is evicted — unless a protected session
+ * still shows it.
+ */
+export function planEviction(
+  candidates: EvictionCandidate[],
+  messages: Record<string, ChatMessage[]>,
+  branches: Record<string, BranchPoint[]>,
+  attachments: AttachmentInfo[],
+  policy: StoragePolicy,
+  now = Date.now(),
+): EvictionPlan {
+  const sessionCutoff = policy.sessionDays > 0 ? now - policy.sessionDays * DAY_MS : -Infinity
+  const attachmentCutoff = policy.attachmentDays > 0 ? now - policy.attachmentDays * DAY_MS : -Infinity
+
+  const sessionKeys = candidates
+    .filter((c) => !c.protected && c.lastActivity < sessionCutoff)
+    .map((c) => c.key)
+  const evicted = new Set(sessionKeys)
+
+  const kept = new Set<string>() // shown by a session that stays
+  const pinned = new Set<string>() // shown by a protected session or a parked branch
+  const isProtected = new Set(candidates.filter((c) => c.protected).map((c) => c.key))
+  // Branches stay through an eviction, so their images are always in use
+  for (const points of Object.values(branches)) {
+    for (const id of points.flatMap((p) => p.variants.flatMap(attachmentIdsOf))) pinned.add(id)
+  }
+  for (const [key, msgs] of Object.entries(messages)) {
+    if (evicted.has(key)) continue
+    for (const id of attachmentIdsOf(msgs)) {
+      kept.add(id)
+      if (isProtected.has(key)) pinned.add(id)
+    }
+  }
+
+  const attachmentIds = attachments
+    .filter((a) => !pinned.has(a.id) && (!kept.has(a.id) || a.createdAt < attachmentCutoff))
+    .map((a) => a.id)
+
+  return { sessionKeys, attachmentIds }
+}
+
+/** Emergency plan when a write hit the quota: oldest unprotected caches first */
+export function planSpaceRecovery(candidates: EvictionCandidate[], share = 0.5): string[] {
+  const evictable = candidates
+    .filter((c) => !c.protected)
+    .sort((a, b) => a.lastActivity - b.lastActivity)
+  return evictable.slice(0, Math.max(1, Math.ceil(evictable.length * share))).map((c) => c.key)
+}
@@ -0,0 +1,45 @@
+/**
+ * Priming a gateway session with an existing transcript.
+ *
+ * The gateway has no "insert history" method, so a forked or imported session starts
+ * with one chat.send that carries the earlier turns as context and asks the
+ * agent to answer NO_REPLY. Both halves of that exchange are filtered from
+ * history and live events, the same way heartbeat noise is.
+ */
+
+import type { ChatMessage } from './gateway'
+
+export const SEED_MARKER = '[LilClaw context seed]'
+
+// Keep the seed well inside a single prompt — oldest turns are dropped first
+const MAX_SEED_CHARS = 60_000
+
+function renderTurn(m: ChatMessage): string {
+  const parts = m.content.map((c) => (c.type === 'image' ? '[图片]' : c.text || '')).filter(Boolean)
+  return `${m.role === 'user' ? '用户' : '助手'}：${parts.join('\n')}`
+}
+
+export function buildSeedMessage(messages: ChatMessage[], source: string): string {
+  const turns = messages.map(renderTurn)
+  let body = turns.join('\n\n')
+  let dropped = false
+  while (body.length > MAX_SEED_CHARS && turns.length > 1) {
+    turns.shift()
+    dropped = true
+    body = turns.join('\n\n')
+  }
+
+  return [
+    SEED_MARKER,
+    `以下是对话「${source}」到目前为止的内容，请把它当作本对话的历史记录继续。`,
+    '现在不需要回应，只回复 NO_REPLY。',
+    '',
+    '<transcript>',
+    dropped ? '（更早的内容已省略）\n\n' + body : body,
+    '</transcript>',
+  ].join('\n')
+}
+
+export function isSeedMessage(text: string): boolean {
+  return text.includes(SEED_MARKER)
+}
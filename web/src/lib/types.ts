@@ -0,0 +1,22 @@
+/**
+ * Session shapes shared by the store and the lib modules that persist or
+ * export them — kept here so lib code never imports from the store.
+ */
+
+/** Device-local facts about a session that the gateway doesn't track */
+export interface SessionMeta {
+  /** Session this one was forked from */
+  parentKey?: string
+  /** Title for a session only this device knows (an import that wasn't replayed) */
+  label?: string
+  /** Kept at the top of the drawer and never evicted from the local cache */
+  pinned?: boolean
+  /** Moved to the drawer's collapsed 已归档 section */
+  archived?: boolean
+  tags?: string[]
+  /** Messages up to this time were cleared from view (/clear) — history reloads skip them */
+  clearedAt?: number
+}
+
+/** Drawer organization; mirrored to the gateway when it stores it */
+export type SessionOrganization = Pick<SessionMeta, 'pinned' | 'archived' | 'tags'>
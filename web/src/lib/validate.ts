@@ -0,0 +1,131 @@
+/**
+ * Tiny runtime validator for gateway frames and imported files.
+ * Zero dependencies — composable checks that return either the typed value
+ * or a diagnostic naming the offending path ("payload.message.content[0].text").
+ */
+
+export type Result<T> = { ok: true; value: T } | { ok: false; error: string }
+
+export type Validator<T> = (input: unknown, path: string) => Result<T>
+
+export type Infer<V> = V extends Validator<infer T> ? T : never
+
+type Shape = Record<string, Validator<unknown>>
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never
+}[keyof S]
+
+type ObjectOf<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>
+}
+
+function describe(input: unknown): string {
+  if (input === null) return 'null'
+  if (Array.isArray(input)) return 'array'
+  return typeof input
+}
+
+function fail(path: string, expected: string, input: unknown): { ok: false; error: string } {
+  return { ok: false, error: `${path || 'value'}: expected ${expected}, got ${describe(input)}` }
+}
+
+export const string = (): Validator<string> => (input, path) =>
+  typeof input === 'string' ? { ok: true, value: input } : fail(path, 'string', input)
+
+export const number = (): Validator<number> => (input, path) =>
+  typeof input === 'number' && !Number.isNaN(input) ? { ok: true, value: input } : fail(path, 'number', input)
+
+export const boolean = (): Validator<boolean> => (input, path) =>
+  typeof input === 'boolean' ? { ok: true, value: input } : fail(path, 'boolean', input)
+
+export const unknown = (): Validator<unknown> => (input) => ({ ok: true, value: input })
+
+export function literal<T extends string | number | boolean>(...values: T[]): Validator<T> {
+  return (input, path) =>
+    values.includes(input as T)
+      ? { ok: true, value: input as T }
+      : fail(path, values.map((v) => JSON.stringify(v)).join(' | '), input)
+}
+
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (input, path) => (input === undefined || input === null ? { ok: true, value: undefined } : validator(input, path))
+}
+
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  return (input, path) => (input === null ? { ok: true, value: null } : validator(input, path))
+}
+
+export function array<T>(item: Validator<T>): Validator<T[]> {
+  return (input, path) => {
+    if (!Array.isArray(input)) return fail(path, 'array', input)
+    const out: T[] = []
+    for (let i = 0; i < input.length; i++) {
+      const r = item(input[i], `${path}[${i}]`)
+      if (!r.ok) return r
+      out.push(r.value)
+    }
+    return { ok: true, value: out }
+  }
+}
+
+/** Checks the listed keys; unknown keys are kept — the gateway adds fields freely */
+export function object<S extends Shape>(shape: S): Validator<ObjectOf<S>> {
+  return (input, path) => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) return fail(path, 'object', input)
+    const out: Record<string, unknown> = { ...(input as Record<string, unknown>) }
+    for (const key of Object.keys(shape)) {
+      const r = shape[key]((input as Record<string, unknown>)[key], path ? `${path}.${key}` : key)
+      if (!r.ok) return r
+      if (r.value === undefined) delete out[key]
+      else out[key] = r.value
+    }
+    return { ok: true, value: out as ObjectOf<S> }
+  }
+}
+
+/** Like `object`, but keys the shape doesn't list are dropped — for files from outside the app */
+export function exact<S extends Shape>(shape: S): Validator<ObjectOf<S>> {
+  const loose = object(shape)
+  return (input, path) => {
+    const r = loose(input, path)
+    if (!r.ok) return r
+    const out: Record<string, unknown> = {}
+    for (const key of Object.keys(shape)) {
+      if (key in r.value) out[key] = (r.value as Record<string, unknown>)[key]
+    }
+    return { ok: true, value: out as ObjectOf<S> }
+  }
+}
+
+export function record<T>(value: Validator<T>): Validator<Record<string, T>> {
+  return (input, path) => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) return fail(path, 'object', input)
+    const out: Record<string, T> = {}
+    for (const [key, v] of Object.entries(input)) {
+      const r = value(v, `${path}.${key}`)
+      if (!r.ok) return r
+      out[key] = r.value
+    }
+    return { ok: true, value: out }
+  }
+}
+
+/** First matching branch wins; the diagnostic lists every branch's complaint */
+export function union<T extends Validator<unknown>[]>(...branches: T): Validator<Infer<T[number]>> {
+  return (input, path) => {
+    const errors: string[] = []
+    for (const branch of branches) {
+      const r = branch(input, path)
+      if (r.ok) return r as Result<Infer<T[number]>>
+      errors.push(r.error)
+    }
+    return { ok: false, error: errors.join(' | ') }
+  }
+}
+
+export function validate<T>(validator: Validator<T>, input: unknown, path = ''): Result<T> {
+  return validator(input, path)
+}
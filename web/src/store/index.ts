@@ -1,15 +1,58 @@
 import { create } from 'zustand'
-import { persist } from 'zustand/middleware'
+import { createJSONStorage, persist } from 'zustand/middleware'
 import { showToast } from '../components/Toast'
 import {
   GatewayClient,
+  GatewayError,
+  createIdempotencyKey,
+  normalizeSessionKey,
   type ConnectionState,
   type ChatMessage,
   type MessageContent,
   type AgentEvent,
   type SessionInfo,
+  type ModelInfo,
 } from '../lib/gateway'
-import { saveMessages, loadAllMessages, deleteSessionMessages } from '../lib/messageDb'
+import {
+  saveMessages,
+  loadMessages,
+  loadRecentMessages,
+  loadEarlierMessages,
+  loadSessionPreviews,
+  loadAllMessages,
+  deleteSessionMessages,
+  deleteCachedMessages,
+  loadAttachmentInfo,
+  onQuotaExceeded,
+  saveHistoryMeta,
+  loadAllHistoryMeta,
+  putOutboxEntry,
+  deleteOutboxEntry,
+  loadOutbox,
+  saveBranches,
+  loadAllBranches,
+  saveDraft,
+  loadAllDrafts,
+  type ComposerDraft,
+  type HistoryMeta,
+  type OutboxEntry,
+  type OutboxStatus,
+} from '../lib/messageDb'
+import type { ChatAttachment, SessionsPatchParams, ThinkingLevel } from '../lib/protocol'
+import { buildSeedMessage } from '../lib/transcriptSeed'
+import { attachmentBase64, attachmentIdsOf, evictAttachments, extractInlineImages, inlineAttachments, pruneAttachments, storeImage } from '../lib/attachments'
+import { DEFAULT_STORAGE_POLICY, planEviction, planSpaceRecovery, type EvictionCandidate, type StoragePolicy } from '../lib/storageManager'
+import { parseDataUrl } from '../lib/dataUrl'
+import { exportSessions, saveExport, type ExportFormat, type ExportedSession } from '../lib/exporter'
+import type { ImportItem } from '../lib/importer'
+import type { TagColor } from '../lib/sessionTags'
+import type { SessionMeta, SessionOrganization } from '../lib/types'
+import { BUILTIN_ACTIONS, type ActionCard } from '../lib/actions'
+import { clearReplyNotification, isAppHidden, notifyReply } from '../lib/notify'
+import { messagePreview } from '../lib/preview'
+import { adoptServerIds, forkAt, hiddenMessageIds, switchVariant, type BranchPoint } from '../lib/branches'
+import { createClientId, echoTombstone, ensureMessageIds, reconcileMessages, resolveEchoTombstones } from '../lib/reconcile'
+import { MOCK_MODE, createMockSocket } from '../lib/mockGateway'
 
 interface StreamingContent {
   content: MessageContent[]
@@ -25,22 +68,53 @@ interface AppState {
   // Sessions
   currentSessionKey: string
   sessions: SessionInfo[]
+  sessionMeta: Record<string, SessionMeta>
+  // Colors the user picked for tags; others get one derived from the name
+  tagColors: Record<string, TagColor>
+  // What models.list reported; empty when the gateway doesn't offer it
+  models: ModelInfo[]
+
+  // Quick-start cards on the empty chat screen, in display order
+  actionCards: ActionCard[]
 
-  // Messages
+  // Composer contents left behind in each session
+  drafts: Record<string, ComposerDraft>
+
+  // Messages — the newest part of each cached transcript; the open session's
+  // latest page, and just the last message of the others until they're opened
   messages: Record<string, ChatMessage[]>
+  // Whether the device cache goes further back than what's in `messages`;
+  // absent until the session's latest cached page has been read
+  cachedOlder: Record<string, boolean>
+  // Ids of locally deleted messages, so history reloads don't bring them back
+  deletedMessageIds: Record<string, string[]>
+  // Alternate tails left behind by edits, per session
+  branches: Record<string, BranchPoint[]>
   streaming: Record<string, StreamingContent>
+  // Pagination: whether older history exists on the gateway, and where it starts
+  historyPages: Record<string, HistoryMeta>
+  loadingOlder: Record<string, boolean>
   agentState: Record<string, AgentEvent | null>
 
+  // Replies that finished while another session was open, per session
+  unread: Record<string, number>
+
   // Typing: user sent message, waiting for first response
   typing: Record<string, boolean>
 
-  // Offline message queue
-  pendingMessages: Array<{ sessionKey: string; message: string; timestamp: number }>
+  // Outbox: user messages not yet acknowledged by the gateway (mirrored in IndexedDB)
+  pendingMessages: OutboxEntry[]
 
   // UI
   showDrawer: boolean
   showSettings: boolean
+  showSearch: boolean
+  showImport: boolean
+  showActionEditor: boolean
+  // Message to scroll to and flash once ChatScreen has it on screen
+  focusMessage: { sessionKey: string; messageId: string } | null
   theme: 'system' | 'light' | 'dark'
+  storagePolicy: StoragePolicy
   fontSize: number  // 14-22, default 16
   cacheLoaded: boolean
 
@@ -50,23 +124,58 @@ interface AppState {
   // Actions
   connect: () => void
   disconnect: () => void
-  sendMessage: (message: string, attachments?: Array<{mimeType: string; content: string}>) => Promise<void>
+  sendMessage: (message: string, attachments?: ChatAttachment[]) => Promise<void>
+  retryMessage: (messageId: string) => Promise<void>
   abortChat: () => Promise<void>
   switchSession: (sessionKey: string) => void
   createSession: (sessionKey: string) => void
+  forkSession: (messageId: string) => Promise<void>
   loadHistory: () => Promise<void>
+  loadOlderMessages: () => Promise<void>
   loadSessions: () => Promise<void>
   renameSession: (key: string, label: string) => Promise<void>
-  deleteMessage: (sessionKey: string, index: number) => void
+  organizeSession: (key: string, patch: SessionOrganization) => void
+  setTagColor: (tag: string, color: TagColor) => void
+  loadModels: () => Promise<void>
+  // Per-session override; null goes back to the gateway default
+  setSessionModel: (key: string, patch: { model?: string | null; thinkingLevel?: ThinkingLevel | null }) => Promise<void>
+  // Empty text clears the session's instructions; resolves to whether the gateway took it
+  setSessionInstructions: (key: string, instructions: string) => Promise<boolean>
+  deleteMessage: (sessionKey: string, messageId: string) => void
+  editMessage: (messageId: string, text: string) => Promise<void>
+  switchBranch: (pointId: string, index: number) => void
   retryLastMessage: () => void
   deleteSession: (sessionKey: string) => void
+  // Keep what the composer holds for a session; an empty composer drops the draft
+  setDraft: (sessionKey: string, draft: Omit<ComposerDraft, 'updatedAt'>) => void
+  // Hide the conversation so far on this device; the gateway transcript is untouched
+  clearSession: (sessionKey: string) => void
+  // Gateway-side: start the transcript over, or summarize it to free up context
+  resetSession: (sessionKey: string) => Promise<void>
+  compactSession: (sessionKey: string) => Promise<void>
+  // Export the given sessions (default: all) and hand the file to the share sheet
+  exportConversations: (format: ExportFormat, sessionKeys?: string[]) => Promise<void>
+  // Write planned sessions from an export file; replay seeds each one on the gateway
+  importConversations: (items: ImportItem[], replay: boolean) => Promise<void>
   loadCachedMessages: () => Promise<void>
+  // Every cached transcript in full, for search and storage upkeep
+  loadCachedTranscripts: () => Promise<Record<string, ChatMessage[]>>
   flushPendingMessages: () => Promise<void>
+  resumeActiveRuns: () => Promise<void>
 
   setShowDrawer: (show: boolean) => void
   setShowSettings: (show: boolean) => void
+  setShowSearch: (show: boolean) => void
+  setShowImport: (show: boolean) => void
+  setShowActionEditor: (show: boolean) => void
+  setActionCards: (cards: ActionCard[]) => void
+  jumpToMessage: (sessionKey: string, messageId: string) => Promise<void>
+  clearFocusMessage: () => void
   setTheme: (theme: 'system' | 'light' | 'dark') => void
   setFontSize: (size: number) => void
+  setStoragePolicy: (policy: StoragePolicy) => void
+  // Evict what the storage policy says to; returns how many sessions and images went
+  applyStoragePolicy: () => Promise<{ sessions: number; attachments: number }>
   updateSettings: (port: number, token: string) => void
 
   // Helpers
@@ -74,27 +183,432 @@ interface AppState {
   isGenerating: (sessionKey?: string) => boolean
 }
 
+// Keep tombstones bounded — old ones fall outside any history page anyway
+const MAX_TOMBSTONES = 200
+
+// After a reconnect, how long a resumed run may go without a new delta before
+// the partial reply is kept as-is
+const RESUME_GRACE_MS = 20_000
+
+// Timeouts/disconnects are retried automatically this many times before the
+// message is marked failed and left for the user to retry
+const MAX_SEND_ATTEMPTS = 3
+// Wait before the first automatic retry while still connected; doubles each attempt
+const RETRY_DELAY_MS = 2_000
+
+// Messages read from the device cache at a time: the open session's latest
+// page, then one more per scroll to the top
+const CACHE_PAGE_SIZE = 50
+
 // Persist messages to IndexedDB (debounced)
 const persistTimers = new Map<string, ReturnType<typeof setTimeout>>()
+const persistQueue = new Map<string, ChatMessage[]>()
 function debouncedPersist(sessionKey: string, messages: ChatMessage[]) {
   const existing = persistTimers.get(sessionKey)
   if (existing) clearTimeout(existing)
+  persistQueue.set(sessionKey, messages)
   persistTimers.set(sessionKey, setTimeout(() => {
     saveMessages(sessionKey, messages)
     persistTimers.delete(sessionKey)
+    persistQueue.delete(sessionKey)
   }, 500))
 }
 
+function cancelPersist(sessionKey: string) {
+  clearTimeout(persistTimers.get(sessionKey))
+  persistTimers.delete(sessionKey)
+  persistQueue.delete(sessionKey)
+}
+
+// Write out every save still waiting — before reading transcripts back in full
+async function flushPersists() {
+  const queued = [...persistQueue]
+  queued.forEach(([key]) => cancelPersist(key))
+  await Promise.all(queued.map(([key, messages]) => saveMessages(key, messages)))
+}
+
+// A page read from the cache goes in front of what memory already has; the
+// in-memory copy of a message is the newer one
+function withCachedPage(cached: ChatMessage[], loaded: ChatMessage[] = []): ChatMessage[] {
+  const ids = new Set(loaded.map((m) => m.id))
+  // A send that was in flight when the app died never got its answer
+  const older = ensureMessageIds(cached)
+    .filter((m) => !ids.has(m.id))
+    .map((m) => (m.status === 'sending' ? { ...m, status: 'queued' as const } : m))
+  return older.length > 0 ? [...older, ...loaded] : loaded
+}
+
+// Persist drafts to IndexedDB (debounced) — the composer updates them per keystroke
+const draftTimers = new Map<string, ReturnType<typeof setTimeout>>()
+function debouncedSaveDraft(sessionKey: string, draft: ComposerDraft | undefined) {
+  clearTimeout(draftTimers.get(sessionKey))
+  draftTimers.set(sessionKey, setTimeout(() => {
+    saveDraft(sessionKey, draft)
+    draftTimers.delete(sessionKey)
+  }, 500))
+}
+
+function sameDraft(a: Omit<ComposerDraft, 'updatedAt'>, b: ComposerDraft): boolean {
+  return a.text === b.text
+    && a.image?.content === b.image?.content
+    && a.actionId === b.actionId
+    && JSON.stringify(a.fieldValues ?? {}) === JSON.stringify(b.fieldValues ?? {})
+}
+
 export const useStore = create<AppState>()(
   persist(
     (set, get) => {
       let client: GatewayClient | null = null
+      // Cleared when the gateway rejects organization fields in sessions.patch;
+      // from then on pins, archives and tags stay on this device
+      let gatewayOrganizes = true
+      // The version-mismatch toast has been shown this page load
+      let protocolMismatchShown = false
+
+      // Runs whose reply came in through chat.history — a late final would be a duplicate
+      const settledRuns = new Set<string>()
 
-      const normalizeSessionKey = (key: string): string => {
-        const match = key.match(/^agent:[^:]+:(.+)$/)
-        return match ? match[1] : key
+      // Whether the assistant has answered the last user message in a session
+      const replyLanded = (sessionKey: string): boolean => {
+        const msgs = get().messages[sessionKey] || []
+        for (let i = msgs.length - 1; i >= 0; i--) {
+          if (msgs[i].role === 'user') return false
+          if (msgs[i].role === 'assistant') return true
+        }
+        return false
       }
 
+      // Turn whatever streamed before the run was lost into a regular message
+      const finalizeInterrupted = (sessionKey: string) => {
+        const partial = get().streaming[sessionKey]?.content || []
+        set((state) => {
+          const cleared = {
+            streaming: { ...state.streaming, [sessionKey]: { content: [], isStreaming: false } },
+            typing: { ...state.typing, [sessionKey]: false },
+            agentState: { ...state.agentState, [sessionKey]: null },
+          }
+          if (partial.length === 0) return cleared
+          const newMessages = [
+            ...(state.messages[sessionKey] || []),
+            { id: createClientId(), role: 'assistant' as const, content: partial, timestamp: Date.now(), interrupted: true },
+          ]
+          debouncedPersist(sessionKey, newMessages)
+          return { ...cleared, messages: { ...state.messages, [sessionKey]: newMessages } }
+        })
+        client?.clearActiveRun(sessionKey)
+        if (partial.length > 0) {
+          showToast('连接中断，已保留部分回复', 'info')
+        } else {
+          showToast('回复中断，请重试', 'error')
+        }
+      }
+
+      // Watch a resumed run: keep waiting while deltas arrive, finalize once they stop
+      const watchResumedRun = (sessionKey: string, lastSeen: MessageContent[] | undefined) => {
+        setTimeout(() => {
+          const s = get()
+          const current = s.streaming[sessionKey]
+          if (!s.typing[sessionKey] && !current?.isStreaming) return // final arrived
+          if (current?.isStreaming && current.content !== lastSeen) {
+            watchResumedRun(sessionKey, current.content)
+            return
+          }
+          finalizeInterrupted(sessionKey)
+        }, RESUME_GRACE_MS)
+      }
+
+      // Mirror an outbox entry's delivery state onto its bubble; no status = delivered
+      const setDeliveryStatus = (entry: OutboxEntry, status: OutboxStatus | undefined) => {
+        set((state) => {
+          const msgs = state.messages[entry.sessionKey] || []
+          const newMessages = msgs.map((m) => (m.id === entry.messageId ? { ...m, status } : m))
+          debouncedPersist(entry.sessionKey, newMessages)
+          return {
+            messages: { ...state.messages, [entry.sessionKey]: newMessages },
+            pendingMessages: status
+              ? state.pendingMessages.map((p) => (p.messageId === entry.messageId ? { ...entry, status } : p))
+              : state.pendingMessages.filter((p) => p.messageId !== entry.messageId),
+          }
+        })
+        if (status) {
+          putOutboxEntry({ ...entry, status })
+        } else {
+          deleteOutboxEntry(entry.messageId)
+        }
+      }
+
+      // Auto-name session: if first user message and no label yet
+      const autoNameSession = (sessionKey: string, message: string) => {
+        const state = get()
+        const userMessages = (state.messages[sessionKey] || []).filter((m) => m.role === 'user')
+        const sessionInfo = state.sessions.find((s) => s.key === sessionKey)
+        if (userMessages.length > 1 || sessionInfo?.label || !message) return
+        const label = message.length > 30 ? message.slice(0, 30) + '…' : message
+        set((state) => ({
+          sessions: state.sessions.map((s) =>
+            s.key === sessionKey ? { ...s, label } : s
+          ),
+        }))
+        client?.patchSession(sessionKey, { label }).catch(() => {})
+      }
+
+      // Settings only the gateway can apply (model, instructions): show them right
+      // away, roll back if sessions.patch fails
+      const patchSessionSettings = async (
+        key: string,
+        patch: Omit<SessionsPatchParams, 'key'>,
+        update: (session: SessionInfo) => SessionInfo,
+        failMessage: string,
+      ): Promise<boolean> => {
+        const previous = get().sessions.find((s) => s.key === key)
+        set((state) => ({
+          sessions: state.sessions.some((s) => s.key === key)
+            ? state.sessions.map((s) => (s.key === key ? update(s) : s))
+            : [...state.sessions, update({ key })],
+        }))
+        try {
+          if (!client) throw new GatewayError('Not connected', true)
+          await client.patchSession(key, patch)
+          return true
+        } catch {
+          set((state) => ({
+            sessions: previous
+              ? state.sessions.map((s) => (s.key === key ? previous : s))
+              : state.sessions.filter((s) => s.key !== key),
+          }))
+          showToast(failMessage, 'error')
+          return false
+        }
+      }
+
+      // Safety net: if no response arrives within 15s, assume error and clear state
+      // Gateway may silently fail (e.g. invalid API key) without sending any WS events
+      const watchForReply = (sessionKey: string) => {
+        const sentAt = Date.now()
+        setTimeout(() => {
+          const s = get()
+          if (!s.typing[sessionKey] && !s.streaming[sessionKey]?.isStreaming) return // already resolved
+          // If no new messages arrived since we sent, it's likely an error
+          const msgs = s.messages[sessionKey] || []
+          const lastMsg = msgs[msgs.length - 1]
+          const hasNewResponse = lastMsg && lastMsg.role === 'assistant' && (lastMsg.timestamp || 0) > sentAt
+          if (hasNewResponse) return // got a response, all good
+          if (s.streaming[sessionKey]?.isStreaming) return // streaming in progress
+          // Still stuck — clear it
+          set((state) => ({
+            typing: { ...state.typing, [sessionKey]: false },
+            agentState: { ...state.agentState, [sessionKey]: null },
+            streaming: { ...state.streaming, [sessionKey]: { content: [], isStreaming: false } },
+          }))
+          showToast('请求超时，请重试', 'error')
+        }, 15_000)
+      }
+
+      // Resend what went back in the queue while the socket stayed up — a
+      // reconnect flushes the outbox by itself
+      let retryTimer: ReturnType<typeof setTimeout> | null = null
+      const scheduleRetry = (attempts: number) => {
+        if (retryTimer) return
+        retryTimer = setTimeout(() => {
+          retryTimer = null
+          if (get().connectionState === 'connected') get().flushPendingMessages()
+        }, RETRY_DELAY_MS * 2 ** (attempts - 1))
+      }
+
+      // Send one outbox entry. The idempotency key is fixed when the message is
+      // created, so a retry after a timeout that actually reached the gateway
+      // can't start a second run.
+      const deliver = async (entry: OutboxEntry): Promise<boolean> => {
+        const attempt = { ...entry, attempts: entry.attempts + 1 }
+        setDeliveryStatus(attempt, 'sending')
+        set((state) => ({ typing: { ...state.typing, [entry.sessionKey]: true } }))
+        try {
+          if (!client) throw new GatewayError('Not connected', true)
+          await client.sendMessage(entry.sessionKey, entry.message, entry.attachments, entry.idempotencyKey)
+        } catch (err) {
+          const retryable = !(err instanceof GatewayError) || err.retryable
+          const status = retryable && attempt.attempts < MAX_SEND_ATTEMPTS ? 'queued' : 'failed'
+          setDeliveryStatus(attempt, status)
+          set((state) => ({ typing: { ...state.typing, [entry.sessionKey]: false } }))
+          if (status === 'failed') showToast('消息发送失败，点击消息重试', 'error')
+          else if (get().connectionState === 'connected') scheduleRetry(attempt.attempts)
+          return false
+        }
+        setDeliveryStatus(attempt, undefined)
+        watchForReply(entry.sessionKey)
+        autoNameSession(entry.sessionKey, entry.message)
+        return true
+      }
+
+      // The session's latest cached page, read once per page load — before its
+      // history is merged in, so the merge sees what the device already has
+      const loadCachedPage = async (sessionKey: string) => {
+        if (sessionKey in get().cachedOlder) return
+        const page = await loadRecentMessages(sessionKey, CACHE_PAGE_SIZE)
+        set((state) => ({
+          messages: { ...state.messages, [sessionKey]: withCachedPage(page.messages, state.messages[sessionKey]) },
+          cachedOlder: { ...state.cachedOlder, [sessionKey]: page.hasEarlier },
+        }))
+      }
+
+      // The cached page before what's loaded, put in front of it
+      const loadEarlierPage = async (sessionKey: string) => {
+        const page = await loadEarlierMessages(sessionKey, CACHE_PAGE_SIZE)
+        set((state) => ({
+          messages: { ...state.messages, [sessionKey]: withCachedPage(page.messages, state.messages[sessionKey]) },
+          cachedOlder: { ...state.cachedOlder, [sessionKey]: page.hasEarlier },
+        }))
+      }
+
+      // Drop stored images no message or branch shows anymore
+      const pruneUnreferencedAttachments = () => {
+        const { messages, branches } = get()
+        pruneAttachments(new Set([
+          ...Object.values(messages).flatMap(attachmentIdsOf),
+          ...Object.values(branches).flatMap((points) => points.flatMap((p) => p.variants.flatMap(attachmentIdsOf))),
+        ]))
+      }
+
+      // The whole cached transcript of a session — memory may only hold its newest
+      // part. Falls back to memory when the cache doesn't have `messageId` yet.
+      const fullTranscript = async (sessionKey: string, messageId: string): Promise<ChatMessage[]> => {
+        await flushPersists()
+        const cached = await loadMessages(sessionKey)
+        return cached.some((m) => m.id === messageId) ? cached : get().messages[sessionKey] || []
+      }
+
+      // Seed runs still going, by session — their NO_REPLY is never shown. The
+      // run id is undefined until chat.send answers with it.
+      const seedRuns = new Map<string, string | undefined>()
+
+      // Hand a transcript to a gateway session as context; the agent answers NO_REPLY
+      const seedSession = async (sessionKey: string, transcript: ChatMessage[], source: string) => {
+        const key = normalizeSessionKey(sessionKey)
+        seedRuns.set(key, undefined)
+        try {
+          const runId = await client!.sendMessage(sessionKey, buildSeedMessage(transcript, source))
+          // Its final may already have arrived
+          if (seedRuns.has(key)) seedRuns.set(key, runId)
+        } catch (err) {
+          seedRuns.delete(key)
+          throw err
+        }
+      }
+
+      // Whether an event belongs to a seed run; events without a run id count
+      // while the seed is the session's only known run
+      const isSeedEvent = (sessionKey: string, runId: string | undefined): boolean => {
+        if (!seedRuns.has(sessionKey)) return false
+        const seedRunId = seedRuns.get(sessionKey)
+        return seedRunId === undefined || runId === undefined || runId === seedRunId
+      }
+
+      // The seed run is over — drop whatever its partial reply left behind
+      const endSeedRun = (sessionKey: string) => {
+        seedRuns.delete(sessionKey)
+        set((state) => ({
+          streaming: { ...state.streaming, [sessionKey]: { content: [], isStreaming: false } },
+          agentState: { ...state.agentState, [sessionKey]: null },
+          typing: { ...state.typing, [sessionKey]: false },
+        }))
+      }
+
+      // Re-run the conversation from a user message: the turns from there on are
+      // parked as a branch and the (possibly edited) text goes out as a new send.
+      // Regenerating is the same fork with unchanged text. The gateway's
+      // transcript is left alone — it may hold pages this device never cached.
+      const rerunFrom = async (messageId: string, text: string) => {
+        const original = (get().messages[get().currentSessionKey] || []).find((m) => m.id === messageId)
+        if (!original || original.role !== 'user' || !text.trim()) return
+
+        // Images on the original message go out again with the new run
+        const attachments: ChatAttachment[] = []
+        for (const c of original.content) {
+          const data = c.attachmentId ? await attachmentBase64(c.attachmentId) : c.url ? parseDataUrl(c.url) : null
+          if (data) attachments.push(data)
+        }
+
+        // Read the transcript after the image loads — a reply may have landed meanwhile
+        const { currentSessionKey, messages, branches } = get()
+        const msgs = messages[currentSessionKey] || []
+        const idx = msgs.findIndex((m) => m.id === messageId)
+        if (idx === -1) return
+
+        // A turn that never got an answer isn't worth keeping as a variant
+        const answered = msgs.slice(idx).some((m) => m.role === 'assistant')
+        const fork = answered
+          ? forkAt(msgs, branches[currentSessionKey] || [], idx > 0 ? msgs[idx - 1].id : null)
+          : { messages: msgs.slice(0, idx), points: branches[currentSessionKey] || [] }
+        const parked = new Set(msgs.slice(idx).map((m) => m.id))
+        get().pendingMessages
+          .filter((p) => parked.has(p.messageId))
+          .forEach((p) => deleteOutboxEntry(p.messageId))
+        debouncedPersist(currentSessionKey, fork.messages)
+        if (answered) saveBranches(currentSessionKey, fork.points)
+        set((state) => ({
+          messages: { ...state.messages, [currentSessionKey]: fork.messages },
+          branches: { ...state.branches, [currentSessionKey]: fork.points },
+          pendingMessages: state.pendingMessages.filter((p) => !parked.has(p.messageId)),
+        }))
+
+        await get().sendMessage(text.trim(), attachments.length > 0 ? attachments : undefined)
+      }
+
+      // Sessions whose local cache could be dropped, with what rules them out
+      const evictionCandidates = (): EvictionCandidate[] => {
+        const { messages, sessions, sessionMeta, currentSessionKey, pendingMessages } = get()
+        return Object.keys(messages)
+          .filter((key) => messages[key].length > 0)
+          .map((key) => {
+            const msgs = messages[key]
+            const meta = sessionMeta[key]
+            return {
+              key,
+              lastActivity: Math.max(
+                sessions.find((s) => s.key === key)?.lastActivity ?? 0,
+                msgs[msgs.length - 1].timestamp ?? 0,
+              ),
+              // Local-only sessions (meta.label) can't be reloaded from the gateway
+              protected: !!meta?.pinned || meta?.label !== undefined || key === currentSessionKey
+                || pendingMessages.some((p) => p.sessionKey === key),
+            }
+          })
+      }
+
+      // Drop sessions' cached transcripts; they stay in the drawer and reload from the gateway
+      const evictSessions = (keys: string[]) => {
+        if (keys.length === 0) return
+        keys.forEach((key) => {
+          cancelPersist(key)
+          deleteCachedMessages(key)
+        })
+        set((state) => {
+          const messages = { ...state.messages }
+          const historyPages = { ...state.historyPages }
+          const cachedOlder = { ...state.cachedOlder }
+          for (const key of keys) {
+            delete messages[key]
+            delete historyPages[key]
+            delete cachedOlder[key]
+          }
+          return { messages, historyPages, cachedOlder }
+        })
+      }
+
+      // A write hit the quota: free the older half of what may go, at most once a minute
+      let lastSpaceRecovery = 0
+      onQuotaExceeded(() => {
+        if (Date.now() - lastSpaceRecovery < 60_000) return
+        lastSpaceRecovery = Date.now()
+        const keys = planSpaceRecovery(evictionCandidates())
+        evictSessions(keys)
+        Promise.all([loadAttachmentInfo(), get().loadCachedTranscripts()]).then(([attachments, transcripts]) => {
+          const plan = planEviction(evictionCandidates(), transcripts, get().branches, attachments, DEFAULT_STORAGE_POLICY)
+          return evictAttachments(plan.attachmentIds)
+        }).catch((err) => console.error('Space recovery failed:', err))
+        showToast(keys.length > 0 ? `存储空间不足，已清理 ${keys.length} 个旧对话的本地缓存` : '存储空间不足，部分内容未能保存', 'error')
+      })
+
       const initClient = () => {
         const state = get()
         client = new GatewayClient(
@@ -103,14 +617,23 @@ export const useStore = create<AppState>()(
               set({ connectionState })
               if (connectionState === 'connected') {
                 get().loadSessions()
+                get().loadModels()
                 get().loadHistory()
+                // Pick up replies that were streaming when the socket dropped
+                get().resumeActiveRuns()
                 // Flush any messages queued while offline
                 get().flushPendingMessages()
               }
             },
-            onChatEvent: (rawSessionKey, eventState, content) => {
+            onChatEvent: (rawSessionKey, eventState, content, messageId, runId) => {
               const sessionKey = normalizeSessionKey(rawSessionKey)
 
+              // A seed's partial "NO_RE…" would otherwise stream as a reply
+              if (isSeedEvent(sessionKey, runId)) {
+                if (eventState === 'final') endSeedRun(sessionKey)
+                return
+              }
+
               // Filter out heartbeat responses and silent replies from display
               const text = content.map((c) => c.text || '').join(' ').trim()
               if (/^\s*HEARTBEAT_OK\s*$/.test(text) || /^\s*NO_REPLY\s*$/.test(text)) return
@@ -124,16 +647,25 @@ export const useStore = create<AppState>()(
                   },
                 }))
               } else {
-                // Final message
+                // Final message — unless history already delivered it
+                const existingMessages = get().messages[sessionKey] || []
+                const settled = runId !== undefined && settledRuns.delete(runId)
+                if (settled || (messageId && existingMessages.some((m) => m.id === messageId))) {
+                  set((state) => ({
+                    streaming: { ...state.streaming, [sessionKey]: { content: [], isStreaming: false } },
+                    agentState: { ...state.agentState, [sessionKey]: null },
+                    typing: { ...state.typing, [sessionKey]: false },
+                  }))
+                  return
+                }
+                const [reply] = extractInlineImages([{ id: messageId || createClientId(), role: 'assistant' as const, content, timestamp: Date.now() }])
                 set((state) => {
-                  const existingMessages = state.messages[sessionKey] || []
-                  const newMessages = [
-                    ...existingMessages,
-                    { role: 'assistant' as const, content, timestamp: Date.now() },
-                  ]
+                  const newMessages = [...(state.messages[sessionKey] || []), reply]
                   debouncedPersist(sessionKey, newMessages)
+                  const unseen = sessionKey !== state.currentSessionKey
                   return {
                     messages: { ...state.messages, [sessionKey]: newMessages },
+                    unread: unseen ? { ...state.unread, [sessionKey]: (state.unread[sessionKey] ?? 0) + 1 } : state.unread,
                     streaming: {
                       ...state.streaming,
                       [sessionKey]: { content: [], isStreaming: false },
@@ -142,10 +674,17 @@ export const useStore = create<AppState>()(
                     typing: { ...state.typing, [sessionKey]: false },
                   }
                 })
+                if (isAppHidden() || sessionKey !== get().currentSessionKey) {
+                  notifyReply(sessionKey, get().getSessionDisplayName(sessionKey), messagePreview(reply, 120))
+                }
               }
             },
-            onAgentEvent: (rawSessionKey, event) => {
+            onAgentEvent: (rawSessionKey, event, runId) => {
               const sessionKey = normalizeSessionKey(rawSessionKey)
+              if (isSeedEvent(sessionKey, runId)) {
+                if (event.kind === 'done' || event.kind === 'error') endSeedRun(sessionKey)
+                return
+              }
               set((state) => ({
                 agentState: { ...state.agentState, [sessionKey]: event },
                 typing: { ...state.typing, [sessionKey]: false },
@@ -171,15 +710,90 @@ export const useStore = create<AppState>()(
                 }, 500)
               }
             },
-            onHistoryLoaded: (sessionKey, messages) => {
-              // Server history replaces cached messages
-              debouncedPersist(sessionKey, messages)
-              set((state) => ({
-                messages: { ...state.messages, [sessionKey]: messages },
-              }))
+            onHistoryLoaded: (sessionKey, serverMessages, page) => {
+              // Merge server history into the cache instead of replacing it, so
+              // optimistic messages and local deletions survive a reload
+              set((state) => {
+                const local = state.messages[sessionKey] || []
+                // Turns parked in a branch are still in the server transcript — keep them out
+                const points = adoptServerIds(state.branches[sessionKey] || [], serverMessages, new Set(local.map((m) => m.id)))
+                if (points !== state.branches[sessionKey] && points.length > 0) saveBranches(sessionKey, points)
+                const clearedAt = state.sessionMeta[sessionKey]?.clearedAt
+                const visible = clearedAt
+                  ? serverMessages.filter((m) => m.timestamp === undefined || m.timestamp > clearedAt)
+                  : serverMessages
+                // Messages deleted before the server confirmed them, found under their server ids
+                const deleted = resolveEchoTombstones(state.deletedMessageIds[sessionKey] || [], visible, new Set(local.map((m) => m.id)))
+                const deletedMessageIds = deleted === state.deletedMessageIds[sessionKey]
+                  ? state.deletedMessageIds
+                  : { ...state.deletedMessageIds, [sessionKey]: deleted }
+                const tombstones = new Set([...deleted, ...hiddenMessageIds(points)])
+                const outbox = state.pendingMessages.filter((p) => p.sessionKey === sessionKey)
+                // Inline images from the gateway are moved into the attachment store
+                const merged = extractInlineImages(reconcileMessages(local, visible, tombstones, page.older ? 'older' : 'latest', outbox))
+
+                // A latest-page reload must not rewind a cursor that scrolling
+                // up has already moved further back
+                const existing = state.historyPages[sessionKey]
+                const meta = page.older || !existing
+                  ? { hasMore: page.hasMore, cursor: page.cursor }
+                  : existing
+                if (meta !== existing) saveHistoryMeta(sessionKey, meta)
+
+                const branches = points === state.branches[sessionKey]
+                  ? state.branches
+                  : { ...state.branches, [sessionKey]: points }
+                if (merged === local) {
+                  if (meta === existing && branches === state.branches && deletedMessageIds === state.deletedMessageIds) return {}
+                  return { branches, deletedMessageIds, historyPages: meta === existing ? state.historyPages : { ...state.historyPages, [sessionKey]: meta } }
+                }
+                debouncedPersist(sessionKey, merged)
+
+                // An outbox message is only adopted under a server id once the
+                // server echoed its idempotency key or a copy sent after it was
+                // queued — the send got through, so stop retrying it
+                const ids = new Set(merged.map((m) => m.id))
+                const delivered = outbox.filter((p) => !ids.has(p.messageId) && local.some((m) => m.id === p.messageId))
+                delivered.forEach((p) => deleteOutboxEntry(p.messageId))
+
+                return {
+                  messages: { ...state.messages, [sessionKey]: merged },
+                  branches,
+                  deletedMessageIds,
+                  historyPages: { ...state.historyPages, [sessionKey]: meta },
+                  pendingMessages: delivered.length > 0
+                    ? state.pendingMessages.filter((p) => !delivered.includes(p))
+                    : state.pendingMessages,
+                }
+              })
             },
             onSessionsLoaded: (sessions) => {
-              set({ sessions })
+              // Imported sessions that were never replayed exist only on this device
+              set((state) => {
+                const known = new Set(sessions.map((s) => s.key))
+                // A gateway that returns organization fields is the source of truth for them
+                let sessionMeta = state.sessionMeta
+                for (const s of sessions) {
+                  if (s.pinned === undefined && s.archived === undefined && s.tags === undefined) continue
+                  gatewayOrganizes = true
+                  if (sessionMeta === state.sessionMeta) sessionMeta = { ...sessionMeta }
+                  sessionMeta[s.key] = { ...sessionMeta[s.key], pinned: s.pinned, archived: s.archived, tags: s.tags }
+                }
+                const localOnly = Object.entries(state.sessionMeta)
+                  .filter(([key, meta]) => meta.label !== undefined && !known.has(key) && (state.messages[key]?.length ?? 0) > 0)
+                  .map(([key, meta]) => ({
+                    key,
+                    label: meta.label,
+                    lastActivity: state.messages[key][state.messages[key].length - 1].timestamp,
+                  }))
+                return { sessions: [...sessions, ...localOnly], sessionMeta }
+              })
+            },
+            onProtocolError: () => {
+              // A gateway/SPA version mismatch — say so once, not for every bad frame
+              if (protocolMismatchShown) return
+              protocolMismatchShown = true
+              showToast('网关版本不兼容，部分内容可能无法显示', 'info')
             },
             onError: (error) => {
               console.error('Gateway error:', error)
@@ -194,7 +808,8 @@ export const useStore = create<AppState>()(
             },
           },
           state.gatewayPort,
-          state.authToken
+          state.authToken,
+          MOCK_MODE ? createMockSocket : undefined
         )
         set({ client })
       }
@@ -206,34 +821,70 @@ export const useStore = create<AppState>()(
         authToken: 'lilclaw-local',
         currentSessionKey: 'main',
         sessions: [],
+        sessionMeta: {},
+        tagColors: {},
+        models: [],
+        actionCards: BUILTIN_ACTIONS,
+        drafts: {},
         messages: {},
+        cachedOlder: {},
+        deletedMessageIds: {},
+        branches: {},
         streaming: {},
+        historyPages: {},
+        loadingOlder: {},
         agentState: {},
         typing: {},
+        unread: {},
         pendingMessages: [],
         showDrawer: false,
         showSettings: false,
+        showSearch: false,
+        showImport: false,
+        showActionEditor: false,
+        focusMessage: null,
         theme: 'system',
         fontSize: 16,
+        storagePolicy: DEFAULT_STORAGE_POLICY,
         cacheLoaded: false,
         client: null,
 
-        // Load cached messages from IndexedDB (call on app init)
+        // Load cached messages from IndexedDB (call on app init): the open
+        // session's latest page, and the last message of every other one
         loadCachedMessages: async () => {
-          const cached = await loadAllMessages()
-          if (Object.keys(cached).length > 0) {
-            set((state) => {
-              // Only set cached messages for sessions that don't already have server data
-              const merged = { ...cached }
-              for (const key of Object.keys(state.messages)) {
-                if (state.messages[key].length > 0) {
-                  merged[key] = state.messages[key]
-                }
-              }
-              return { messages: merged, cacheLoaded: true }
+          const { currentSessionKey } = get()
+          const [recent, previews, historyPages, outbox, branches, drafts] = await Promise.all([
+            loadRecentMessages(currentSessionKey, CACHE_PAGE_SIZE),
+            loadSessionPreviews(currentSessionKey),
+            loadAllHistoryMeta(),
+            loadOutbox(),
+            loadAllBranches(),
+            loadAllDrafts(),
+          ])
+          // A send that was in flight when the app died never got its answer
+          const pendingMessages = outbox.map((e) => (e.status === 'sending' ? { ...e, status: 'queued' as const } : e))
+          set((state) => {
+            // Server data that arrived first is newer than the cache
+            const messages = { ...state.messages }
+            for (const [key, msgs] of Object.entries({ ...previews, [currentSessionKey]: recent.messages })) {
+              if (msgs.length > 0) messages[key] = withCachedPage(msgs, messages[key])
+            }
+            return {
+              messages,
+              cachedOlder: { ...state.cachedOlder, [currentSessionKey]: recent.hasEarlier },
+              historyPages: { ...historyPages, ...state.historyPages },
+              branches: { ...branches, ...state.branches },
+              drafts: { ...drafts, ...state.drafts },
+              pendingMessages: [...pendingMessages, ...state.pendingMessages.filter((p) => !outbox.some((e) => e.messageId === p.messageId))],
+              cacheLoaded: true,
+            }
+          })
+          const { sessionDays, attachmentDays } = get().storagePolicy
+          if (sessionDays > 0 || attachmentDays > 0) {
+            get().applyStoragePolicy().catch((err) => {
+              console.error('Storage cleanup failed:', err)
+              showToast('清理本地缓存失败', 'error')
             })
-          } else {
-            set({ cacheLoaded: true })
           }
         },
 
@@ -246,7 +897,7 @@ export const useStore = create<AppState>()(
           client?.disconnect()
         },
 
-        sendMessage: async (message: string, attachments?: Array<{mimeType: string; content: string}>) => {
+        sendMessage: async (message: string, attachments?: ChatAttachment[]) => {
           const { currentSessionKey, connectionState } = get()
 
           // Build content array — text + optional image thumbnails for display
@@ -257,7 +908,8 @@ export const useStore = create<AppState>()(
           if (attachments) {
             for (const att of attachments) {
               if (att.mimeType.startsWith('image/')) {
-                contentParts.push({ type: 'image', url: `data:${att.mimeType};base64,${att.content}` })
+                // Kept as a Blob on the device; the base64 only travels in the outbox
+                contentParts.push({ type: 'image', attachmentId: storeImage(att.mimeType, att.content) })
               }
             }
           }
@@ -266,10 +918,24 @@ export const useStore = create<AppState>()(
             contentParts.push({ type: 'text', text: message })
           }
 
+          // Queued first, delivered second: the entry (with its attachments and
+          // idempotency key) survives an app restart until the gateway acks it
+          const entry: OutboxEntry = {
+            messageId: createClientId(),
+            sessionKey: currentSessionKey,
+            message,
+            attachments,
+            idempotencyKey: createIdempotencyKey(),
+            status: 'queued',
+            attempts: 0,
+            createdAt: Date.now(),
+          }
           const userMessage: ChatMessage = {
+            id: entry.messageId,
             role: 'user',
             content: contentParts,
-            timestamp: Date.now(),
+            timestamp: entry.createdAt,
+            status: 'queued',
           }
 
           // Always add message to local state immediately (optimistic)
@@ -281,68 +947,27 @@ export const useStore = create<AppState>()(
             debouncedPersist(currentSessionKey, newMessages)
             return {
               messages: { ...state.messages, [currentSessionKey]: newMessages },
-              typing: { ...state.typing, [currentSessionKey]: connectionState === 'connected' },
+              pendingMessages: [...state.pendingMessages, entry],
               sessions: state.sessions.map((s) =>
                 s.key === currentSessionKey ? { ...s, lastActivity: Date.now() } : s
               ),
             }
           })
+          putOutboxEntry(entry)
 
           if (connectionState === 'connected') {
-            // Online: send immediately
-            try {
-              await client?.sendMessage(currentSessionKey, message, attachments)
-            } catch {
-              // Failed to send — queue it
-              set((state) => ({
-                pendingMessages: [...state.pendingMessages, { sessionKey: currentSessionKey, message, timestamp: Date.now() }],
-                typing: { ...state.typing, [currentSessionKey]: false },
-              }))
-              return
-            }
-            // Safety net: if no response arrives within 15s, assume error and clear state
-            // Gateway may silently fail (e.g. invalid API key) without sending any WS events
-            const sentSessionKey = currentSessionKey
-            const sentAt = Date.now()
-            const checkStuck = () => {
-              const s = get()
-              if (!s.typing[sentSessionKey] && !s.streaming[sentSessionKey]?.isStreaming) return // already resolved
-              // If no new messages arrived since we sent, it's likely an error
-              const msgs = s.messages[sentSessionKey] || []
-              const lastMsg = msgs[msgs.length - 1]
-              const hasNewResponse = lastMsg && lastMsg.role === 'assistant' && (lastMsg.timestamp || 0) > sentAt
-              if (hasNewResponse) return // got a response, all good
-              if (s.streaming[sentSessionKey]?.isStreaming) return // streaming in progress
-              // Still stuck — clear it
-              set((state) => ({
-                typing: { ...state.typing, [sentSessionKey]: false },
-                agentState: { ...state.agentState, [sentSessionKey]: null },
-                streaming: { ...state.streaming, [sentSessionKey]: { content: [], isStreaming: false } },
-              }))
-              import('../components/Toast').then(m => m.showToast('请求超时，请重试', 'error'))
-            }
-            setTimeout(checkStuck, 15_000)
-          } else {
-            // Offline: queue for later
-            set((state) => ({
-              pendingMessages: [...state.pendingMessages, { sessionKey: currentSessionKey, message, timestamp: Date.now() }],
-            }))
-            return
+            await deliver(entry)
           }
+        },
 
-          // Auto-name session: if first user message and no label yet
-          const state = get()
-          const sessionMessages = state.messages[currentSessionKey] || []
-          const userMessages = sessionMessages.filter((m) => m.role === 'user')
-          const sessionInfo = state.sessions.find((s) => s.key === currentSessionKey)
-          if (userMessages.length === 1 && !sessionInfo?.label) {
-            const label = message.length > 30 ? message.slice(0, 30) + '…' : message
-            set((state) => ({
-              sessions: state.sessions.map((s) =>
-                s.key === currentSessionKey ? { ...s, label } : s
-              ),
-            }))
-            client?.patchSession(currentSessionKey, { label }).catch(() => {})
+        retryMessage: async (messageId: string) => {
+          const entry = get().pendingMessages.find((p) => p.messageId === messageId)
+          if (!entry || entry.status !== 'failed') return
+          const reset = { ...entry, attempts: 0 }
+          if (get().connectionState === 'connected') {
+            await deliver(reset)
+          } else {
+            setDeliveryStatus(reset, 'queued')
           }
         },
 
@@ -360,8 +985,12 @@ export const useStore = create<AppState>()(
         },
 
         switchSession: (sessionKey: string) => {
-          set({ currentSessionKey: sessionKey, showDrawer: false })
-          get().loadHistory()
+          set((state) => {
+            const { [sessionKey]: _seen, ...unread } = state.unread
+            return { currentSessionKey: sessionKey, showDrawer: false, unread }
+          })
+          clearReplyNotification(sessionKey)
+          loadCachedPage(sessionKey).then(() => get().loadHistory())
         },
 
         createSession: (sessionKey: string) => {
@@ -372,11 +1001,65 @@ export const useStore = create<AppState>()(
           }))
         },
 
+        forkSession: async (messageId: string) => {
+          const { currentSessionKey, messages, connectionState } = get()
+          if (!(messages[currentSessionKey] || []).some((m) => m.id === messageId)) return
+          // The new session only has context once the gateway has read the seed
+          if (connectionState !== 'connected' || !client) {
+            showToast('连接后才能创建分支', 'error')
+            return
+          }
+          // The seed carries everything up to here, not just what's loaded
+          const msgs = await fullTranscript(currentSessionKey, messageId)
+          const idx = msgs.findIndex((m) => m.id === messageId)
+          if (idx === -1) return
+
+          const parentName = get().getSessionDisplayName(currentSessionKey)
+          const transcript = msgs.slice(0, idx + 1).map((m) => ({ ...m, status: undefined, interrupted: undefined }))
+          const key = `chat-${Date.now()}`
+          const label = `${parentName} · 分支`
+          try {
+            await seedSession(key, transcript, parentName)
+          } catch {
+            showToast('创建分支失败，请重试', 'error')
+            return
+          }
+
+          get().createSession(key)
+          debouncedPersist(key, transcript)
+          set((state) => ({
+            messages: { ...state.messages, [key]: transcript },
+            sessionMeta: { ...state.sessionMeta, [key]: { parentKey: currentSessionKey } },
+            sessions: state.sessions.map((s) => (s.key === key ? { ...s, label } : s)),
+          }))
+          client.patchSession(key, { label }).catch(() => {})
+          showToast('已创建分支对话', 'success')
+        },
+
         loadHistory: async () => {
           const { currentSessionKey } = get()
           await client?.loadHistory(currentSessionKey)
         },
 
+        loadOlderMessages: async () => {
+          const { currentSessionKey, historyPages, cachedOlder, loadingOlder, connectionState } = get()
+          if (loadingOlder[currentSessionKey]) return
+          const page = historyPages[currentSessionKey]
+          const fromCache = !!cachedOlder[currentSessionKey]
+          // The device cache comes first — it has what the gateway would send, and works offline
+          if (!fromCache && (!page?.hasMore || !page.cursor || connectionState !== 'connected')) return
+
+          set((state) => ({ loadingOlder: { ...state.loadingOlder, [currentSessionKey]: true } }))
+          try {
+            if (fromCache) await loadEarlierPage(currentSessionKey)
+            else await client?.loadHistory(currentSessionKey, { before: page!.cursor })
+          } catch {
+            showToast('加载更早的消息失败', 'error')
+          } finally {
+            set((state) => ({ loadingOlder: { ...state.loadingOlder, [currentSessionKey]: false } }))
+          }
+        },
+
         loadSessions: async () => {
           await client?.listSessions()
         },
@@ -386,17 +1069,92 @@ export const useStore = create<AppState>()(
           await get().loadSessions()
         },
 
-        deleteMessage: (sessionKey: string, index: number) => {
+        organizeSession: (key: string, patch: SessionOrganization) => {
+          const meta = get().sessionMeta[key]
+          set((state) => ({
+            sessionMeta: { ...state.sessionMeta, [key]: { ...state.sessionMeta[key], ...patch } },
+          }))
+          // Sessions only this device knows have nothing to patch on the gateway
+          if (!gatewayOrganizes || !client || meta?.label !== undefined) return
+          client.patchSession(key, patch).catch((err) => {
+            // The gateway refused the fields themselves — keep organizing locally
+            if (err instanceof GatewayError && !err.retryable) gatewayOrganizes = false
+          })
+        },
+
+        setTagColor: (tag: string, color: TagColor) =>
+          set((state) => ({ tagColors: { ...state.tagColors, [tag]: color } })),
+
+        loadModels: async () => {
+          try {
+            const models = await client?.listModels()
+            if (models) set({ models })
+          } catch {
+            // Older gateways have no models.list — the picker says so
+          }
+        },
+
+        setSessionModel: async (key, patch) => {
+          await patchSessionSettings(key, patch, (s) => ({
+            ...s,
+            // The ref carries the provider; a stale modelProvider would double it
+            ...(patch.model !== undefined && { model: patch.model ?? undefined, modelProvider: undefined }),
+            ...(patch.thinkingLevel !== undefined && { thinkingLevel: patch.thinkingLevel ?? undefined }),
+          }), '切换模型失败')
+        },
+
+        setSessionInstructions: async (key, instructions) => {
+          const text = instructions.trim()
+          return patchSessionSettings(key, { instructions: text || null }, (s) => ({
+            ...s,
+            instructions: text || undefined,
+          }), '保存指令失败')
+        },
+
+        deleteMessage: (sessionKey: string, messageId: string) => {
+          deleteOutboxEntry(messageId)
           set((state) => {
-            const msgs = [...(state.messages[sessionKey] || [])]
-            msgs.splice(index, 1)
+            const message = (state.messages[sessionKey] || []).find((m) => m.id === messageId)
+            const msgs = (state.messages[sessionKey] || []).filter((m) => m.id !== messageId)
             debouncedPersist(sessionKey, msgs)
-            return { messages: { ...state.messages, [sessionKey]: msgs } }
+            // Its server copy may still be on the way under another id
+            const echo = message && echoTombstone(message, state.pendingMessages.find((p) => p.messageId === messageId))
+            const tombstones = [...(state.deletedMessageIds[sessionKey] || []), messageId, ...(echo ? [echo] : [])].slice(-MAX_TOMBSTONES)
+            return {
+              messages: { ...state.messages, [sessionKey]: msgs },
+              deletedMessageIds: { ...state.deletedMessageIds, [sessionKey]: tombstones },
+              pendingMessages: state.pendingMessages.filter((p) => p.messageId !== messageId),
+            }
           })
         },
 
+        editMessage: async (messageId: string, text: string) => {
+          if (get().isGenerating()) {
+            showToast('请等待当前回复完成', 'info')
+            return
+          }
+          await rerunFrom(messageId, text)
+        },
+
+        switchBranch: (pointId: string, index: number) => {
+          const { currentSessionKey, messages, branches } = get()
+          if (get().isGenerating(currentSessionKey)) return
+          const result = switchVariant(messages[currentSessionKey] || [], branches[currentSessionKey] || [], pointId, index)
+          if (result.points === branches[currentSessionKey]) return
+          debouncedPersist(currentSessionKey, result.messages)
+          saveBranches(currentSessionKey, result.points)
+          set((state) => ({
+            messages: { ...state.messages, [currentSessionKey]: result.messages },
+            branches: { ...state.branches, [currentSessionKey]: result.points },
+          }))
+        },
+
         retryLastMessage: () => {
           const { currentSessionKey, messages } = get()
+          if (get().isGenerating(currentSessionKey)) {
+            showToast('请等待当前回复完成', 'info')
+            return
+          }
           const msgs = messages[currentSessionKey] || []
 
           // Find last user message
@@ -414,72 +1172,296 @@ export const useStore = create<AppState>()(
 
           if (!text) return
 
-          // Remove messages after (and including) the last user message, then re-send
-          const trimmed = msgs.slice(0, lastUserIdx)
-          set((state) => ({
-            messages: { ...state.messages, [currentSessionKey]: trimmed },
-          }))
-
-          // Re-send
-          get().sendMessage(text)
+          // Resent into the same gateway session; the previous answer stays a variant
+          rerunFrom(lastUserMsg.id, text)
         },
 
         deleteSession: (sessionKey: string) => {
+          cancelPersist(sessionKey)
           deleteSessionMessages(sessionKey)
+          debouncedSaveDraft(sessionKey, undefined)
+          get().pendingMessages
+            .filter((p) => p.sessionKey === sessionKey)
+            .forEach((p) => deleteOutboxEntry(p.messageId))
           set((state) => {
             const newMessages = { ...state.messages }
             delete newMessages[sessionKey]
+            const newTombstones = { ...state.deletedMessageIds }
+            delete newTombstones[sessionKey]
+            const newHistoryPages = { ...state.historyPages }
+            delete newHistoryPages[sessionKey]
+            const { [sessionKey]: _cached, ...cachedOlder } = state.cachedOlder
+            const newBranches = { ...state.branches }
+            delete newBranches[sessionKey]
+            const newMeta = { ...state.sessionMeta }
+            delete newMeta[sessionKey]
+            const newUnread = { ...state.unread }
+            delete newUnread[sessionKey]
+            const newDrafts = { ...state.drafts }
+            delete newDrafts[sessionKey]
             const newSessions = state.sessions.filter((s) => s.key !== sessionKey)
             const needSwitch = state.currentSessionKey === sessionKey
             return {
               messages: newMessages,
+              deletedMessageIds: newTombstones,
+              historyPages: newHistoryPages,
+              cachedOlder,
+              branches: newBranches,
+              sessionMeta: newMeta,
+              unread: newUnread,
+              drafts: newDrafts,
               sessions: newSessions,
               pendingMessages: state.pendingMessages.filter((p) => p.sessionKey !== sessionKey),
               currentSessionKey: needSwitch ? (newSessions[0]?.key || 'main') : state.currentSessionKey,
             }
           })
+          // Forks share images with their parent — only drop what nothing else shows
+          pruneUnreferencedAttachments()
+        },
+
+        setDraft: (sessionKey, draft) => {
+          const current = get().drafts[sessionKey]
+          const empty = !draft.text.trim() && !draft.image && !draft.actionId
+          if (empty ? !current : current && sameDraft(draft, current)) return
+          const next = empty ? undefined : { ...draft, updatedAt: Date.now() }
+          set((state) => {
+            const { [sessionKey]: _previous, ...rest } = state.drafts
+            return { drafts: next ? { ...rest, [sessionKey]: next } : rest }
+          })
+          debouncedSaveDraft(sessionKey, next)
+        },
+
+        clearSession: (sessionKey: string) => {
+          const clearedAt = Date.now()
+          // A write still waiting would bring the old transcript back
+          cancelPersist(sessionKey)
+          deleteSessionMessages(sessionKey)
+          set((state) => {
+            // Messages still on their way out stay visible until delivered
+            const undelivered = (state.messages[sessionKey] || []).filter((m) => m.status)
+            if (undelivered.length > 0) debouncedPersist(sessionKey, undelivered)
+            return {
+              messages: { ...state.messages, [sessionKey]: undelivered },
+              branches: { ...state.branches, [sessionKey]: [] },
+              historyPages: { ...state.historyPages, [sessionKey]: { hasMore: false } },
+              cachedOlder: { ...state.cachedOlder, [sessionKey]: false },
+              sessionMeta: { ...state.sessionMeta, [sessionKey]: { ...state.sessionMeta[sessionKey], clearedAt } },
+            }
+          })
+          pruneUnreferencedAttachments()
+        },
+
+        resetSession: async (sessionKey: string) => {
+          if (get().connectionState !== 'connected' || !client) {
+            showToast('连接后才能重置对话', 'error')
+            return
+          }
+          try {
+            await client.resetSession(sessionKey)
+          } catch (err) {
+            showToast(err instanceof GatewayError && !err.retryable ? '网关不支持重置对话' : '重置对话失败', 'error')
+            return
+          }
+          get().clearSession(sessionKey)
+          showToast('已重置对话', 'success')
+        },
+
+        compactSession: async (sessionKey: string) => {
+          if (get().connectionState !== 'connected' || !client) {
+            showToast('连接后才能压缩上下文', 'error')
+            return
+          }
+          try {
+            await client.compactSession(sessionKey)
+          } catch (err) {
+            showToast(err instanceof GatewayError && !err.retryable ? '网关不支持压缩上下文' : '压缩上下文失败', 'error')
+            return
+          }
+          showToast('已压缩上下文', 'success')
+        },
+
+        importConversations: async (items: ImportItem[], replay: boolean) => {
+          const accepted = items
+            .filter((it) => it.choice !== 'skip')
+            .map((it) => ({
+              ...it,
+              session: {
+                ...it.session,
+                messages: extractInlineImages(it.session.messages),
+                branches: it.session.branches?.map((p) => ({ ...p, variants: p.variants.map(extractInlineImages) })),
+              },
+            }))
+          if (accepted.length === 0) return
+
+          // Overwriting replaces a copy that exists only here; gateway sessions are never touched
+          accepted
+            .filter((it) => it.choice === 'overwrite' && get().sessionMeta[it.session.key]?.label !== undefined)
+            .forEach((it) => get().deleteSession(it.session.key))
+
+          // Written straight away (not debounced) — the import is the only copy
+          await Promise.all(accepted.flatMap(({ session, targetKey }) => [
+            saveMessages(targetKey, session.messages),
+            saveBranches(targetKey, session.branches ?? []),
+          ]))
+
+          const keys = new Set(accepted.map((it) => it.targetKey))
+          set((state) => {
+            const messages = { ...state.messages }
+            const branches = { ...state.branches }
+            const sessionMeta = { ...state.sessionMeta }
+            const deletedMessageIds = { ...state.deletedMessageIds }
+            for (const { session, targetKey } of accepted) {
+              messages[targetKey] = session.messages
+              branches[targetKey] = session.branches ?? []
+              sessionMeta[targetKey] = { ...session.meta, label: session.label?.trim() || session.key }
+              delete deletedMessageIds[targetKey]
+            }
+            const imported = accepted.map(({ session, targetKey }) => ({
+              key: targetKey,
+              label: session.label?.trim() || session.key,
+              lastActivity: session.messages[session.messages.length - 1]?.timestamp,
+            }))
+            return {
+              messages,
+              branches,
+              sessionMeta,
+              deletedMessageIds,
+              sessions: [...state.sessions.filter((s) => !keys.has(s.key)), ...imported],
+            }
+          })
+
+          if (!replay) {
+            showToast(`已导入 ${accepted.length} 个对话`, 'success')
+            return
+          }
+          if (get().connectionState !== 'connected' || !client) {
+            showToast(`已导入 ${accepted.length} 个对话，未连接，上下文未同步`, 'info')
+            return
+          }
+          let failed = 0
+          for (const { session, targetKey } of accepted) {
+            const label = session.label?.trim() || session.key
+            try {
+              await seedSession(targetKey, session.messages, label)
+              await client.patchSession(targetKey, { label })
+            } catch {
+              failed++
+              continue
+            }
+            // The gateway knows it now — no longer a local-only session
+            set((state) => {
+              const { label: _label, ...meta } = state.sessionMeta[targetKey] ?? {}
+              return { sessionMeta: { ...state.sessionMeta, [targetKey]: meta } }
+            })
+          }
+          showToast(
+            failed > 0 ? `已导入 ${accepted.length} 个对话，${failed} 个同步失败` : `已导入并同步 ${accepted.length} 个对话`,
+            failed > 0 ? 'error' : 'success',
+          )
+        },
+        exportConversations: async (format: ExportFormat, sessionKeys?: string[]) => {
+          let sessions: ExportedSession[]
+          try {
+            // Memory only has the newest part of each transcript — the cache has all of it
+            await flushPersists()
+            const all: Record<string, ChatMessage[]> = sessionKeys
+              ? Object.fromEntries(await Promise.all(sessionKeys.map(async (key) => [key, await loadMessages(key)])))
+              : await loadAllMessages()
+            const state = get()
+            const keys = sessionKeys ?? [...new Set([...state.sessions.map((s) => s.key), ...Object.keys(all)])]
+            // Images live on the device as Blobs — the file carries them inline
+            sessions = await Promise.all(keys
+              .filter((key) => (all[key]?.length ?? 0) > 0)
+              .map(async (key) => ({
+                key,
+                label: get().getSessionDisplayName(key),
+                messages: await inlineAttachments(all[key]),
+                branches: state.branches[key]?.length
+                  ? await Promise.all(state.branches[key].map(async (p) => ({ ...p, variants: await Promise.all(p.variants.map(inlineAttachments)) })))
+                  : undefined,
+                meta: state.sessionMeta[key],
+              })))
+            if (sessions.length > 0) saveExport(await exportSessions(sessions, format))
+          } catch (err) {
+            console.error('Export failed:', err)
+            showToast(`导出失败：${err instanceof Error ? err.message : String(err)}`, 'error')
+            return
+          }
+          if (sessions.length === 0) showToast('没有可导出的消息', 'info')
+        },
+
+        loadCachedTranscripts: async () => {
+          await flushPersists()
+          return loadAllMessages()
         },
 
         flushPendingMessages: async () => {
-          const { pendingMessages } = get()
-          if (pendingMessages.length === 0) return
+          // In creation order, one at a time, so the gateway sees them as typed.
+          // Failed messages wait for the user; 'sending' ones are already in flight.
+          const queued = get().pendingMessages.filter((p) => p.status === 'queued')
+          // Their bubbles have to be in memory to show the delivery state
+          await Promise.all([...new Set(queued.map((p) => p.sessionKey))].map(loadCachedPage))
+          for (const entry of queued) {
+            const current = get().pendingMessages.find((p) => p.messageId === entry.messageId)
+            if (!current || current.status !== 'queued') continue
+            const ok = await deliver(current)
+            // Lost the connection mid-flush — the rest go out on the next connect
+            if (!ok && get().connectionState !== 'connected') break
+          }
+        },
 
-          // Take all pending and clear the queue
-          set({ pendingMessages: [] })
+        resumeActiveRuns: async () => {
+          const state = get()
+          const keys = new Set([
+            ...(client?.getActiveRuns().map((r) => r.sessionKey) ?? []),
+            ...Object.keys(state.streaming).filter((k) => state.streaming[k]?.isStreaming),
+            ...Object.keys(state.typing).filter((k) => state.typing[k]),
+          ])
 
-          for (const pending of pendingMessages) {
+          for (const sessionKey of keys) {
+            const runId = client?.getActiveRuns().find((r) => r.sessionKey === sessionKey)?.runId
+            // The gateway broadcasts chat events per session, so live deltas
+            // continue on the new socket. Re-fetch to see whether the reply
+            // already finished while we were away.
             try {
-              set((state) => ({
-                typing: { ...state.typing, [pending.sessionKey]: true },
-              }))
-              await client?.sendMessage(pending.sessionKey, pending.message)
-
-              // Auto-name if needed
-              const state = get()
-              const sessionMessages = state.messages[pending.sessionKey] || []
-              const userMessages = sessionMessages.filter((m) => m.role === 'user')
-              const sessionInfo = state.sessions.find((s) => s.key === pending.sessionKey)
-              if (userMessages.length <= 1 && !sessionInfo?.label) {
-                const label = pending.message.length > 30 ? pending.message.slice(0, 30) + '…' : pending.message
-                set((state) => ({
-                  sessions: state.sessions.map((s) =>
-                    s.key === pending.sessionKey ? { ...s, label } : s
-                  ),
-                }))
-                client?.patchSession(pending.sessionKey, { label }).catch(() => {})
-              }
+              await client?.loadHistory(sessionKey, { background: true })
             } catch {
-              // Re-queue failed messages
+              // Keep waiting for live events
+            }
+            if (replyLanded(sessionKey)) {
+              if (runId) settledRuns.add(runId)
+              client?.clearActiveRun(sessionKey)
               set((state) => ({
-                pendingMessages: [...state.pendingMessages, pending],
-                typing: { ...state.typing, [pending.sessionKey]: false },
+                streaming: { ...state.streaming, [sessionKey]: { content: [], isStreaming: false } },
+                typing: { ...state.typing, [sessionKey]: false },
+                agentState: { ...state.agentState, [sessionKey]: null },
               }))
+              continue
             }
+            watchResumedRun(sessionKey, get().streaming[sessionKey]?.content)
           }
         },
 
         setShowDrawer: (show: boolean) => set({ showDrawer: show }),
         setShowSettings: (show: boolean) => set({ showSettings: show }),
+        setShowSearch: (show: boolean) => set({ showSearch: show }),
+        setShowImport: (show: boolean) => set({ showImport: show }),
+
+        setShowActionEditor: (show: boolean) => set({ showActionEditor: show }),
+
+        setActionCards: (cards: ActionCard[]) => set({ actionCards: cards }),
+
+        jumpToMessage: async (sessionKey: string, messageId: string) => {
+          if (sessionKey !== get().currentSessionKey) get().switchSession(sessionKey)
+          set({ focusMessage: { sessionKey, messageId }, showSearch: false, showDrawer: false })
+          // Search covers the whole cache — page back until the message is loaded
+          await loadCachedPage(sessionKey)
+          while (get().cachedOlder[sessionKey] && !get().messages[sessionKey]?.some((m) => m.id === messageId)) {
+            await loadEarlierPage(sessionKey)
+          }
+        },
+
+        clearFocusMessage: () => set({ focusMessage: null }),
 
         setTheme: (theme) => {
           set({ theme })
@@ -495,6 +1477,18 @@ export const useStore = create<AppState>()(
           }
         },
 
+        // Takes effect at the next launch or on 立即清理 — picking an option never deletes on its own
+        setStoragePolicy: (policy: StoragePolicy) => set({ storagePolicy: policy }),
+
+        applyStoragePolicy: async () => {
+          const [attachments, transcripts] = await Promise.all([loadAttachmentInfo(), get().loadCachedTranscripts()])
+          const { branches, storagePolicy } = get()
+          const plan = planEviction(evictionCandidates(), transcripts, branches, attachments, storagePolicy)
+          evictSessions(plan.sessionKeys)
+          await evictAttachments(plan.attachmentIds)
+          return { sessions: plan.sessionKeys.length, attachments: plan.attachmentIds.length }
+        },
+
         setFontSize: (size: number) => {
           const clamped = Math.max(14, Math.min(22, size))
           set({ fontSize: clamped })
@@ -525,12 +1519,20 @@ export const useStore = create<AppState>()(
     },
     {
       name: 'lilclaw-chat-storage',
+      // A ?mock demo keeps its settings to the tab — the real ones stay untouched
+      storage: createJSONStorage(() => (MOCK_MODE ? sessionStorage : localStorage)),
       partialize: (state) => ({
         gatewayPort: state.gatewayPort,
         authToken: state.authToken,
         currentSessionKey: state.currentSessionKey,
+        sessionMeta: state.sessionMeta,
+        tagColors: state.tagColors,
+        actionCards: state.actionCards,
+        unread: state.unread,
+        deletedMessageIds: state.deletedMessageIds,
         theme: state.theme,
         fontSize: state.fontSize,
+        storagePolicy: state.storagePolicy,
       }),
     }
   )
@@ -603,4 +1605,9 @@ if (typeof window !== 'undefined') {
       document.documentElement.classList.toggle('dark', isDark)
     }
   }) as EventListener)
+
+  // Back in the foreground: the open session's reply notification has been seen
+  document.addEventListener('visibilitychange', () => {
+    if (!isAppHidden()) clearReplyNotification(useStore.getState().currentSessionKey)
+  })
 }